@@ -1,13 +1,20 @@
+// Load .env before any module reads process.env at import time
+import 'dotenv/config';
 import express from 'express';
 import cors from 'cors';
-import dotenv from 'dotenv';
 import journalRoutes from './routes/journalRoutes.js';
 import categoryRoutes from './routes/categoryRoutes.js';
 import planRoutes from './routes/planRoutes.js';
 import poolRoutes from './routes/poolRoutes.js';
-import { isAvailable as ollamaAvailable } from './lib/ollama.js';
-
-dotenv.config();
+import feedbackRoutes from './routes/feedbackRoutes.js';
+import patternRoutes from './routes/patternRoutes.js';
+import { getLLMProvider } from './lib/llm.js';
+import { hoursFromEnv, scheduleJob } from './lib/jobs.js';
+import { extractPendingInsights } from './services/feedbackAnalyzer.js';
+import { minePatterns } from './services/patternMiner.js';
+import { JournalService } from './services/journalService.js';
+import { runPoolLifecycle } from './services/poolLifecycle.js';
+import { runCarryOver } from './services/carryOver.js';
 
 const app = express();
 const PORT = process.env.PORT || 3001;
@@ -21,10 +28,16 @@ app.get('/health', (req, res) => {
   res.json({ status: 'ok', message: 'DayLaunch API is running' });
 });
 
-// Ollama availability (for plan generation)
-app.get('/health/ollama', async (req, res) => {
-  const available = await ollamaAvailable();
-  res.json({ ollama: available, message: available ? 'Ollama is reachable' : 'Ollama is not reachable' });
+// LLM availability (for plan generation). /health/ollama kept for existing clients.
+app.get(['/health/llm', '/health/ollama'], async (req, res) => {
+  const provider = getLLMProvider();
+  const available = await provider.isAvailable();
+  res.json({
+    provider: provider.name,
+    available,
+    ollama: available,
+    message: available ? `LLM provider (${provider.name}) is reachable` : `LLM provider (${provider.name}) is not reachable`,
+  });
 });
 
 // API Routes
@@ -32,6 +45,8 @@ app.use('/api/journals', journalRoutes);
 app.use('/api/categories', categoryRoutes);
 app.use('/api/plans', planRoutes);
 app.use('/api/pool', poolRoutes);
+app.use('/api/feedback', feedbackRoutes);
+app.use('/api/patterns', patternRoutes);
 
 // Start server
 app.listen(PORT, () => {
@@ -42,4 +57,32 @@ app.listen(PORT, () => {
   console.log(`   - Categories: http://localhost:${PORT}/api/categories`);
   console.log(`   - Plans: http://localhost:${PORT}/api/plans`);
   console.log(`   - Pool: http://localhost:${PORT}/api/pool`);
+  console.log(`   - Feedback: http://localhost:${PORT}/api/feedback`);
+  console.log(`   - Patterns: http://localhost:${PORT}/api/patterns`);
+
+  // Catch up on feedback saved while the LLM was offline (or via MCP)
+  getLLMProvider().isAvailable().then((available) => {
+    if (available) extractPendingInsights().catch(console.error);
+  });
+
+  // Background jobs (interval in hours; 0 disables)
+  const miningHours = hoursFromEnv('PATTERN_MINING_INTERVAL_HOURS', 24);
+  if (miningHours > 0) {
+    scheduleJob('pattern-mining', miningHours * 60 * 60 * 1000, minePatterns, { runOnStart: true });
+  }
+  const embeddingHours = hoursFromEnv('EMBEDDING_BACKFILL_INTERVAL_HOURS', 6);
+  if (embeddingHours > 0) {
+    const journalService = new JournalService();
+    scheduleJob('journal-embeddings', embeddingHours * 60 * 60 * 1000, () => journalService.backfillEmbeddings(), {
+      runOnStart: true,
+    });
+  }
+  const lifecycleHours = hoursFromEnv('POOL_LIFECYCLE_INTERVAL_HOURS', 6);
+  if (lifecycleHours > 0) {
+    scheduleJob('pool-lifecycle', lifecycleHours * 60 * 60 * 1000, () => runPoolLifecycle(), { runOnStart: true });
+  }
+  const carryOverHours = hoursFromEnv('CARRY_OVER_INTERVAL_HOURS', 6);
+  if (carryOverHours > 0) {
+    scheduleJob('carry-over', carryOverHours * 60 * 60 * 1000, () => runCarryOver(), { runOnStart: true });
+  }
 });
@@ -0,0 +1,190 @@
+/**
+ * Deterministic reading of dates and times in short free text, for quick
+ * capture ("dentist 2pm thursday", "call Sam tomorrow", "yoga every tue 6-7pm").
+ * Everything is resolved in the user's zone relative to `now`; the words that
+ * were read are cut out of the text so what's left can be the title.
+ *
+ * Conventions:
+ * - "thursday" / "this thursday" is the coming one (today counts);
+ *   "next thursday" is the one in next week (weeks start on Monday)
+ * - numeric dates are month/day ("10/24"); a date without a year that has
+ *   already passed means next year
+ * - a time without a date is today if it's still ahead, otherwise tomorrow
+ * - "at 7" without am/pm is read as daytime: 7–11 morning, 12–6 afternoon
+ * - "every tuesday", "every other week", "every weekday" give an RRULE
+ *   (see lib/recurrence.ts); the series starts on its first day from today
+ */
+
+import { addDays, formatClock, todayStr } from './dates.js';
+
+export interface ParsedWhen {
+  date?: string; // YYYY-MM-DD
+  time?: string; // HH:MM
+  endTime?: string; // HH:MM, from a range like "2-3pm"
+  recurrence?: string; // RRULE
+  matched: string[]; // The phrases that were read
+  text: string; // The input without them
+}
+
+const MONTH = '(jan(?:uary)?|feb(?:ruary)?|mar(?:ch)?|apr(?:il)?|may|june?|july?|aug(?:ust)?|sep(?:t(?:ember)?)?|oct(?:ober)?|nov(?:ember)?|dec(?:ember)?)\\.?';
+// "sun" alone is left out: it's more often the sun than Sunday
+const WEEKDAY = '(sunday|monday|mon|tuesday|tues?|wednesday|wed|thursday|thu(?:rs?)?|friday|fri|saturday|sat)\\.?';
+// Without every/on/this/next in front, "sat" is more often the verb ("sat with grandma")
+const BARE_WEEKDAY = '(sunday|monday|mon|tuesday|tues?|wednesday|wed|thursday|thu(?:rs?)?|friday|fri|saturday)\\.?';
+const AMPM = '([ap])\\.?m\\.?(?![a-z])';
+const MONTH_KEYS = ['jan', 'feb', 'mar', 'apr', 'may', 'jun', 'jul', 'aug', 'sep', 'oct', 'nov', 'dec'];
+const WEEKDAY_KEYS = ['sun', 'mon', 'tue', 'wed', 'thu', 'fri', 'sat'];
+const RRULE_DAYS = ['SU', 'MO', 'TU', 'WE', 'TH', 'FR', 'SA'];
+const NUMBER_WORDS: Record<string, number> = { a: 1, an: 1, one: 1, two: 2, three: 3, four: 4, five: 5, six: 6, seven: 7, ten: 10 };
+
+function weekdayOf(dateStr: string): number {
+  return new Date(`${dateStr}T00:00:00Z`).getUTCDay();
+}
+
+function weekdayIndex(word: string): number {
+  return WEEKDAY_KEYS.indexOf(word.toLowerCase().slice(0, 3));
+}
+
+/** YYYY-MM-DD, or null if there's no such day */
+function makeDate(year: number, month: number, day: number): string | null {
+  const d = new Date(Date.UTC(year, month - 1, day));
+  if (d.getUTCFullYear() !== year || d.getUTCMonth() !== month - 1 || d.getUTCDate() !== day) return null;
+  return d.toISOString().split('T')[0];
+}
+
+/** A month/day with an optional year; without one, the next time that day comes round */
+function resolveDay(month: number, day: number, year: string | undefined, today: string): string | null {
+  if (year) return makeDate(year.length === 2 ? 2000 + Number(year) : Number(year), month, day);
+  const thisYear = Number(today.slice(0, 4));
+  const date = makeDate(thisYear, month, day);
+  return date && date < today ? makeDate(thisYear + 1, month, day) : date;
+}
+
+/** HH:MM from clock parts, or null when they don't make a time */
+function clock(hour: number, minute: number, meridiem?: string): string | null {
+  if (minute > 59) return null;
+  if (meridiem) {
+    if (hour < 1 || hour > 12) return null;
+    hour = (hour % 12) + (meridiem.toLowerCase() === 'p' ? 12 : 0);
+  } else if (hour > 23) {
+    return null;
+  }
+  return `${String(hour).padStart(2, '0')}:${String(minute).padStart(2, '0')}`;
+}
+
+/** The coming `day` (today counts), or with `next`, that day in next week */
+function upcomingWeekday(day: number, today: string, next: boolean): string {
+  const dow = weekdayOf(today);
+  if (!next) return addDays(today, (day - dow + 7) % 7);
+  const nextMonday = addDays(today, 7 - ((dow + 6) % 7));
+  return addDays(nextMonday, (day + 6) % 7);
+}
+
+export function parseWhen(input: string, now: Date = new Date()): ParsedWhen {
+  const today = todayStr(now);
+  const result: ParsedWhen = { matched: [], text: input };
+  let rest = input;
+
+  // Cut the first match out of the text when `read` accepts it
+  const take = (pattern: string, read: (m: RegExpMatchArray) => boolean) => {
+    const m = rest.match(new RegExp(pattern, 'i'));
+    if (!m || m.index === undefined || !read(m)) return;
+    result.matched.push(m[0].trim());
+    rest = `${rest.slice(0, m.index)} ${rest.slice(m.index + m[0].length)}`;
+  };
+  const setDate = (date: string | null) => {
+    if (!date || result.date) return false;
+    result.date = date;
+    return true;
+  };
+  const setTime = (time: string | null, endTime?: string | null) => {
+    if (!time || result.time) return false;
+    result.time = time;
+    if (endTime && endTime > time) result.endTime = endTime;
+    return true;
+  };
+
+  // Repeats
+  take(`\\bevery\\s+(other\\s+)?(day|week|month|weekday|${WEEKDAY}(?:\\s*(?:,|and|&)\\s*${WEEKDAY})*)(?![a-z])`, (m) => {
+    const interval = m[1] ? ';INTERVAL=2' : '';
+    const what = m[2].toLowerCase();
+    if (what === 'day') result.recurrence = `FREQ=DAILY${interval}`;
+    else if (what === 'week') result.recurrence = `FREQ=WEEKLY${interval}`;
+    else if (what === 'month') result.recurrence = `FREQ=MONTHLY${interval}`;
+    else if (what === 'weekday') result.recurrence = `FREQ=WEEKLY${interval};BYDAY=MO,TU,WE,TH,FR`;
+    else {
+      const days = [...new Set(what.split(/\s*(?:,|and|&)\s*/).map(weekdayIndex))].sort((a, b) => ((a + 6) % 7) - ((b + 6) % 7));
+      result.recurrence = `FREQ=WEEKLY${interval};BYDAY=${days.map((d) => RRULE_DAYS[d]).join(',')}`;
+    }
+    return true;
+  });
+
+  // Times: ranges first, so "2-3pm" isn't read as just "3pm"
+  take(`(?:\\b(?:from|at)\\s+)?\\b(\\d{1,2})(?::([0-5]\\d))?\\s*(?:${AMPM})?\\s*(?:-|–|to|until|till)\\s*(\\d{1,2})(?::([0-5]\\d))?\\s*${AMPM}`, (m) => {
+    const end = clock(Number(m[4]), Number(m[5] ?? 0), m[6]);
+    // "11-1pm": the start takes the end's am/pm unless that puts it after the end
+    let start = clock(Number(m[1]), Number(m[2] ?? 0), m[3] ?? m[6]);
+    if (!m[3] && start && end && start >= end) start = clock(Number(m[1]), Number(m[2] ?? 0), m[6] === 'p' || m[6] === 'P' ? 'a' : 'p');
+    return setTime(start, end);
+  });
+  take('(?:\\b(?:from|at)\\s+)?\\b([01]?\\d|2[0-3]):([0-5]\\d)\\s*(?:-|–|to|until|till)\\s*([01]?\\d|2[0-3]):([0-5]\\d)\\b', (m) =>
+    setTime(clock(Number(m[1]), Number(m[2])), clock(Number(m[3]), Number(m[4])))
+  );
+  take(`(?:\\bat\\s+)?\\b(\\d{1,2})(?::([0-5]\\d))?\\s*${AMPM}`, (m) => setTime(clock(Number(m[1]), Number(m[2] ?? 0), m[3])));
+  take('(?:\\bat\\s+)?\\b([01]?\\d|2[0-3]):([0-5]\\d)\\b', (m) => setTime(clock(Number(m[1]), Number(m[2]))));
+  take('\\b(?:at\\s+)?(noon|midday)\\b', () => setTime('12:00'));
+  // Only where it reads as a time: "gym at 7", not "read at 5 pages"
+  take(`\\bat\\s+(\\d{1,2})(?=\\s*$|\\s*[,;!?]|\\s+(?:on|this|next|today|tonight|tomorrow|with|for|in)\\b|\\s+${BARE_WEEKDAY})`, (m) => {
+    const hour = Number(m[1]);
+    if (hour < 1 || hour > 12) return false;
+    return setTime(clock(hour, 0, hour >= 7 && hour <= 11 ? 'a' : 'p'));
+  });
+
+  // Dates
+  take('\\b(?:on\\s+)?(\\d{4})-(\\d{2})-(\\d{2})\\b', (m) => setDate(makeDate(Number(m[1]), Number(m[2]), Number(m[3]))));
+  take(`\\b(?:on\\s+)?${MONTH}\\s+(\\d{1,2})(?:st|nd|rd|th)?(?:,?\\s+(\\d{4}))?\\b`, (m) =>
+    setDate(resolveDay(MONTH_KEYS.indexOf(m[1].toLowerCase().slice(0, 3)) + 1, Number(m[2]), m[3], today))
+  );
+  take(`\\b(?:on\\s+)?(?:the\\s+)?(\\d{1,2})(?:st|nd|rd|th)?\\s+(?:of\\s+)?${MONTH}(?:,?\\s+(\\d{4}))?(?![a-z])`, (m) =>
+    setDate(resolveDay(MONTH_KEYS.indexOf(m[2].toLowerCase().slice(0, 3)) + 1, Number(m[1]), m[3], today))
+  );
+  take('\\b(?:on\\s+)?(\\d{1,2})\\/(\\d{1,2})(?:\\/(\\d{4}|\\d{2}))?\\b', (m) => setDate(resolveDay(Number(m[1]), Number(m[2]), m[3], today)));
+  take('\\b(?:the\\s+)?day after tomorrow\\b', () => setDate(addDays(today, 2)));
+  take('\\b(today|tonight|tomorrow|tmrw|tmr)\\b', (m) => setDate(/^to(day|night)$/i.test(m[1]) ? today : addDays(today, 1)));
+  take('\\bin\\s+(\\d+|an?|one|two|three|four|five|six|seven|ten)\\s+(days?|weeks?)\\b', (m) => {
+    const n = NUMBER_WORDS[m[1].toLowerCase()] ?? Number(m[1]);
+    return setDate(addDays(today, /^week/i.test(m[2]) ? n * 7 : n));
+  });
+  take('\\bnext\\s+week\\b', () => setDate(upcomingWeekday(1, today, true)));
+  take('\\b(?:(this|next)\\s+)?weekend\\b', (m) => setDate(upcomingWeekday(6, today, m[1]?.toLowerCase() === 'next')));
+  take(`\\b(?:(on|this|next)\\s+${WEEKDAY}|${BARE_WEEKDAY})(?![a-z])`, (m) =>
+    setDate(upcomingWeekday(weekdayIndex(m[2] ?? m[3]), today, m[1]?.toLowerCase() === 'next'))
+  );
+
+  // A repeat without a start day begins on its first day from today
+  if (result.recurrence && !result.date) {
+    const byDay = result.recurrence.match(/BYDAY=([A-Z,]+)/);
+    result.date = byDay
+      ? byDay[1].split(',').map((code) => upcomingWeekday(RRULE_DAYS.indexOf(code), today, false)).sort()[0]
+      : today;
+  }
+  // A time on its own is the next time the clock shows it
+  if (result.time && !result.date) {
+    result.date = result.time > formatClock(now) ? today : addDays(today, 1);
+  }
+
+  result.text = rest
+    .replace(/\s+/g, ' ')
+    .replace(/\s+([,.;:!?])/g, '$1')
+    .replace(/^[\s,;:–-]+|[\s,;:–-]+$/g, '')
+    .trim();
+  return result;
+}
+
+/** "Thursday 2026-10-22 14:00", for prompts and previews; null without a date */
+export function describeWhen(when: ParsedWhen): string | null {
+  if (!when.date) return null;
+  const day = ['Sunday', 'Monday', 'Tuesday', 'Wednesday', 'Thursday', 'Friday', 'Saturday'][weekdayOf(when.date)];
+  const time = when.time ? ` ${when.time}${when.endTime ? `–${when.endTime}` : ''}` : '';
+  return `${day} ${when.date}${time}${when.recurrence ? `, repeating ${when.recurrence}` : ''}`;
+}
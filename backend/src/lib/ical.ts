@@ -0,0 +1,219 @@
+/**
+ * Minimal iCalendar (RFC 5545) reading and writing for local .ics files:
+ * VEVENTs in, VEVENTs out. No network, no VTODO/VALARM.
+ *
+ * Times: "...Z" is UTC; a TZID parameter is read in that zone (falling back
+ * to the user's zone for names Intl doesn't know); floating times are the
+ * user's wall clock. All-day events (VALUE=DATE) start at the user's midnight.
+ */
+
+import { zonedTimeToUtc } from './dates.js';
+
+export interface ICalEvent {
+  uid: string;
+  summary: string;
+  description?: string;
+  start: Date;
+  end: Date | null;
+  allDay: boolean;
+  rrule?: string;
+  exdates: Date[];
+  recurrenceId?: Date; // Set on a changed instance of a recurring event
+  cancelled: boolean;
+}
+
+/** What we write for each event in an exported calendar */
+export interface ICalOutputEvent {
+  uid: string;
+  summary: string;
+  description?: string | null;
+  start: Date;
+  end: Date;
+  status?: 'CONFIRMED' | 'CANCELLED';
+  categories?: string[];
+  busy?: boolean; // Fixed commitments block time; invitations don't
+  updatedAt?: Date;
+}
+
+interface Property {
+  name: string;
+  params: Record<string, string>;
+  value: string;
+}
+
+/** Undo line folding: a line starting with a space or tab continues the previous one */
+function unfold(text: string): string[] {
+  return text.replace(/\r\n?/g, '\n').replace(/\n[ \t]/g, '').split('\n').filter((line) => line.trim());
+}
+
+function parseLine(line: string): Property | null {
+  // Parameter values may be quoted and contain ":" or ";"
+  const match = line.match(/^([A-Za-z0-9-]+)((?:;[^:;=]+=(?:"[^"]*"|[^:;]*))*):(.*)$/);
+  if (!match) return null;
+  const params: Record<string, string> = {};
+  for (const param of match[2].match(/;[^:;=]+=(?:"[^"]*"|[^:;]*)/g) ?? []) {
+    const [key, ...rest] = param.slice(1).split('=');
+    params[key.toUpperCase()] = rest.join('=').replace(/^"|"$/g, '');
+  }
+  return { name: match[1].toUpperCase(), params, value: match[3] };
+}
+
+function unescapeText(value: string): string {
+  return value.replace(/\\([nN,;\\])/g, (_, c) => (c === 'n' || c === 'N' ? '\n' : c));
+}
+
+function escapeText(value: string): string {
+  return value.replace(/\\/g, '\\\\').replace(/\n/g, '\\n').replace(/([,;])/g, '\\$1');
+}
+
+function knownZone(timeZone: string | undefined): string | undefined {
+  if (!timeZone) return undefined;
+  try {
+    new Intl.DateTimeFormat('en-US', { timeZone });
+    return timeZone;
+  } catch {
+    return undefined;
+  }
+}
+
+/** DTSTART-style value → instant; `allDay` when it's a bare date */
+function parseDateValue(prop: Property): { date: Date; allDay: boolean } {
+  const match = prop.value.trim().match(/^(\d{4})(\d{2})(\d{2})(?:T(\d{2})(\d{2})(\d{2})(Z)?)?$/);
+  if (!match) throw new Error(`Invalid ${prop.name} "${prop.value}"`);
+  const [, y, mo, d, h, mi, s, utc] = match;
+  const dateStr = `${y}-${mo}-${d}`;
+  if (!h) return { date: zonedTimeToUtc(dateStr), allDay: true };
+  if (utc) return { date: new Date(Date.UTC(+y, +mo - 1, +d, +h, +mi, +s)), allDay: false };
+  return { date: zonedTimeToUtc(dateStr, `${h}:${mi}:${s}`, knownZone(prop.params.TZID)), allDay: false };
+}
+
+/** ISO 8601 duration (e.g. PT1H30M, P1D) in milliseconds */
+function parseDuration(value: string): number | null {
+  const match = value.match(/^([+-])?P(?:(\d+)W)?(?:(\d+)D)?(?:T(?:(\d+)H)?(?:(\d+)M)?(?:(\d+)S)?)?$/);
+  if (!match) return null;
+  const [, sign, w, d, h, m, s] = match;
+  const ms = ((+(w ?? 0) * 7 + +(d ?? 0)) * 86400 + +(h ?? 0) * 3600 + +(m ?? 0) * 60 + +(s ?? 0)) * 1000;
+  return sign === '-' ? -ms : ms;
+}
+
+/**
+ * Read every VEVENT in an .ics file. Events without a UID or start are
+ * skipped; their count comes back in `skipped`.
+ */
+export function parseICS(text: string): { events: ICalEvent[]; skipped: number } {
+  const lines = unfold(text);
+  if (!lines.some((line) => line.trim().toUpperCase() === 'BEGIN:VCALENDAR')) {
+    throw new Error('Not an iCalendar file (no BEGIN:VCALENDAR)');
+  }
+
+  const events: ICalEvent[] = [];
+  let skipped = 0;
+  let current: Property[] | null = null;
+  let depth = 0; // Nested components (e.g. VALARM) inside a VEVENT are ignored
+
+  for (const line of lines) {
+    const prop = parseLine(line.trim());
+    if (!prop) continue;
+    if (prop.name === 'BEGIN' && prop.value.toUpperCase() === 'VEVENT' && !current) {
+      current = [];
+      continue;
+    }
+    if (!current) continue;
+    if (prop.name === 'BEGIN') depth++;
+    else if (prop.name === 'END' && depth > 0) depth--;
+    else if (prop.name === 'END' && prop.value.toUpperCase() === 'VEVENT') {
+      const event = toEvent(current);
+      if (event) events.push(event);
+      else skipped++;
+      current = null;
+    } else if (depth === 0) {
+      current.push(prop);
+    }
+  }
+  return { events, skipped };
+}
+
+function toEvent(props: Property[]): ICalEvent | null {
+  const get = (name: string) => props.find((p) => p.name === name);
+  const uid = get('UID')?.value.trim();
+  const dtstart = get('DTSTART');
+  if (!uid || !dtstart) return null;
+
+  try {
+    const { date: start, allDay } = parseDateValue(dtstart);
+    const dtend = get('DTEND');
+    const duration = get('DURATION');
+    let end: Date | null = null;
+    if (dtend) end = parseDateValue(dtend).date;
+    else if (duration) {
+      const ms = parseDuration(duration.value.trim());
+      if (ms !== null) end = new Date(start.getTime() + ms);
+    }
+    if (allDay) end = null; // All-day events don't block hours of the day
+
+    const recurrenceId = get('RECURRENCE-ID');
+    return {
+      uid,
+      summary: unescapeText(get('SUMMARY')?.value ?? '').trim() || '(untitled event)',
+      description: get('DESCRIPTION') ? unescapeText(get('DESCRIPTION')!.value).trim() || undefined : undefined,
+      start,
+      end: end && end > start ? end : null,
+      allDay,
+      rrule: get('RRULE')?.value.trim(),
+      exdates: props
+        .filter((p) => p.name === 'EXDATE')
+        .flatMap((p) => p.value.split(',').map((value) => parseDateValue({ ...p, value }).date)),
+      recurrenceId: recurrenceId ? parseDateValue(recurrenceId).date : undefined,
+      cancelled: get('STATUS')?.value.trim().toUpperCase() === 'CANCELLED',
+    };
+  } catch {
+    return null;
+  }
+}
+
+/** 20261020T143000Z */
+function formatUtc(date: Date): string {
+  return date.toISOString().replace(/[-:]/g, '').replace(/\.\d{3}/, '');
+}
+
+/** Fold lines longer than 75 octets, as the spec asks */
+function fold(line: string): string {
+  const chunks: string[] = [];
+  let rest = line;
+  while (Buffer.byteLength(rest) > 75) {
+    let cut = 75;
+    while (Buffer.byteLength(rest.slice(0, cut)) > 75) cut--;
+    chunks.push(rest.slice(0, cut));
+    rest = ' ' + rest.slice(cut);
+  }
+  chunks.push(rest);
+  return chunks.join('\r\n');
+}
+
+/** Write a VCALENDAR with one VEVENT per event (times in UTC) */
+export function serializeICS(calendarName: string, events: ICalOutputEvent[], now: Date = new Date()): string {
+  const lines = [
+    'BEGIN:VCALENDAR',
+    'VERSION:2.0',
+    'PRODID:-//DayLaunch//Daily Plan//EN',
+    'CALSCALE:GREGORIAN',
+    `X-WR-CALNAME:${escapeText(calendarName)}`,
+  ];
+  for (const event of events) {
+    lines.push(
+      'BEGIN:VEVENT',
+      `UID:${event.uid}`,
+      `DTSTAMP:${formatUtc(now)}`,
+      `DTSTART:${formatUtc(event.start)}`,
+      `DTEND:${formatUtc(event.end)}`,
+      `SUMMARY:${escapeText(event.summary)}`
+    );
+    if (event.description) lines.push(`DESCRIPTION:${escapeText(event.description)}`);
+    if (event.categories?.length) lines.push(`CATEGORIES:${event.categories.map(escapeText).join(',')}`);
+    if (event.status) lines.push(`STATUS:${event.status}`);
+    if (event.updatedAt) lines.push(`LAST-MODIFIED:${formatUtc(event.updatedAt)}`);
+    lines.push(`TRANSP:${event.busy ? 'OPAQUE' : 'TRANSPARENT'}`, 'END:VEVENT');
+  }
+  lines.push('END:VCALENDAR');
+  return lines.map(fold).join('\r\n') + '\r\n';
+}
@@ -0,0 +1,57 @@
+/**
+ * Minimal in-process scheduler for background jobs (pattern mining, etc.).
+ * Local-first: no queue or cron daemon, just timers inside the backend process.
+ * A job that is still running when its next tick arrives is skipped, not stacked.
+ */
+
+interface ScheduledJob {
+  name: string;
+  timer: NodeJS.Timeout;
+  running: boolean;
+}
+
+const jobs = new Map<string, ScheduledJob>();
+
+export async function runJob(name: string, fn: () => Promise<unknown>): Promise<void> {
+  const job = jobs.get(name);
+  if (job?.running) return;
+  if (job) job.running = true;
+  try {
+    await fn();
+  } catch (error: any) {
+    console.error(`Job "${name}" failed:`, error.message);
+  } finally {
+    if (job) job.running = false;
+  }
+}
+
+/**
+ * Run fn every intervalMs. Set runOnStart to also run it once right away.
+ * Scheduling the same name twice replaces the earlier job.
+ */
+export function scheduleJob(
+  name: string,
+  intervalMs: number,
+  fn: () => Promise<unknown>,
+  options: { runOnStart?: boolean } = {}
+): void {
+  cancelJob(name);
+  const timer = setInterval(() => void runJob(name, fn), intervalMs);
+  timer.unref();
+  jobs.set(name, { name, timer, running: false });
+  if (options.runOnStart) void runJob(name, fn);
+}
+
+export function cancelJob(name: string): void {
+  const job = jobs.get(name);
+  if (job) {
+    clearInterval(job.timer);
+    jobs.delete(name);
+  }
+}
+
+/** Hours from an env var; 0 or negative disables the job */
+export function hoursFromEnv(name: string, fallback: number): number {
+  const value = process.env[name] ? Number(process.env[name]) : fallback;
+  return isNaN(value) ? fallback : value;
+}
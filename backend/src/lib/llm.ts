@@ -0,0 +1,76 @@
+/**
+ * LLM provider layer: one interface over local inference servers, so the
+ * planner doesn't care whether Ollama or an OpenAI-compatible server
+ * (LM Studio, llama.cpp server) is behind it.
+ *
+ * Select with LLM_PROVIDER=ollama (default) or LLM_PROVIDER=openai.
+ */
+
+import { OllamaProvider } from './ollama.js';
+import { OpenAICompatibleProvider } from './openaiCompatible.js';
+
+export interface GenerateOptions {
+  model?: string;
+  prompt: string;
+  temperature?: number;
+  topP?: number;
+  maxTokens?: number;
+  signal?: AbortSignal; // Cancels the request (e.g. client disconnected)
+  json?: boolean; // Ask for strict JSON output where the provider supports it
+}
+
+/** Called with each chunk of text as the model produces it */
+export type TokenHandler = (token: string) => void;
+
+export interface LLMProvider {
+  /** Short provider id for logs and health checks, e.g. "ollama" */
+  readonly name: string;
+  generate(options: GenerateOptions): Promise<string>;
+  /** Same as generate, but reports tokens as they arrive; resolves with the full text */
+  generateStream(options: GenerateOptions, onToken: TokenHandler): Promise<string>;
+  embed(text: string, model?: string): Promise<number[]>;
+  listModels(): Promise<{ name: string }[]>;
+  isAvailable(): Promise<boolean>;
+}
+
+let provider: LLMProvider | null = null;
+
+function createProvider(): LLMProvider {
+  const kind = (process.env.LLM_PROVIDER || 'ollama').toLowerCase();
+  switch (kind) {
+    case 'ollama':
+      return new OllamaProvider();
+    case 'openai':
+    case 'lmstudio':
+    case 'llamacpp':
+      return new OpenAICompatibleProvider();
+    default:
+      throw new Error(`Unknown LLM_PROVIDER "${kind}" (expected ollama or openai)`);
+  }
+}
+
+/** The configured provider (created on first use, after dotenv has loaded) */
+export function getLLMProvider(): LLMProvider {
+  if (!provider) provider = createProvider();
+  return provider;
+}
+
+export function generate(options: GenerateOptions): Promise<string> {
+  return getLLMProvider().generate(options);
+}
+
+export function generateStream(options: GenerateOptions, onToken: TokenHandler): Promise<string> {
+  return getLLMProvider().generateStream(options, onToken);
+}
+
+export function embed(text: string, model?: string): Promise<number[]> {
+  return getLLMProvider().embed(text, model);
+}
+
+export function listModels(): Promise<{ name: string }[]> {
+  return getLLMProvider().listModels();
+}
+
+export function isAvailable(): Promise<boolean> {
+  return getLLMProvider().isAvailable();
+}
@@ -1,21 +1,10 @@
 /**
  * Ollama API client for local LLM inference.
- * Used by the planning engine to generate daily plans.
+ * Default provider behind lib/llm.ts.
  */
 
-const OLLAMA_BASE = process.env.OLLAMA_BASE_URL || 'http://localhost:11434';
-const DEFAULT_MODEL = process.env.OLLAMA_MODEL || 'llama3.1:70b';
-
-export interface OllamaGenerateOptions {
-  model?: string;
-  prompt: string;
-  stream?: boolean;
-  options?: {
-    temperature?: number;
-    top_p?: number;
-    num_predict?: number;
-  };
-}
+import type { GenerateOptions, LLMProvider, TokenHandler } from './llm.js';
+import { readLines } from './streams.js';
 
 export interface OllamaGenerateResponse {
   model: string;
@@ -24,42 +13,99 @@ export interface OllamaGenerateResponse {
   done_reason?: string;
 }
 
-export async function generate(options: OllamaGenerateOptions): Promise<string> {
-  const url = `${OLLAMA_BASE}/api/generate`;
-  const body = {
-    model: options.model || DEFAULT_MODEL,
-    prompt: options.prompt,
-    stream: options.stream ?? false,
-    options: options.options ?? { temperature: 0.7, num_predict: 4096 },
-  };
+export class OllamaProvider implements LLMProvider {
+  readonly name = 'ollama';
+
+  constructor(
+    private baseUrl: string = process.env.OLLAMA_BASE_URL || 'http://localhost:11434',
+    private model: string = process.env.OLLAMA_MODEL || 'llama3.1:70b',
+    private embedModel: string = process.env.OLLAMA_EMBED_MODEL || 'nomic-embed-text'
+  ) {}
+
+  private async requestGenerate(options: GenerateOptions, stream: boolean): Promise<Response> {
+    const body = {
+      model: options.model || this.model,
+      prompt: options.prompt,
+      stream,
+      ...(options.json ? { format: 'json' } : {}),
+      options: {
+        temperature: options.temperature ?? 0.7,
+        num_predict: options.maxTokens ?? 4096,
+        ...(options.topP != null ? { top_p: options.topP } : {}),
+      },
+    };
 
-  const res = await fetch(url, {
-    method: 'POST',
-    headers: { 'Content-Type': 'application/json' },
-    body: JSON.stringify(body),
-  });
+    const res = await fetch(`${this.baseUrl}/api/generate`, {
+      method: 'POST',
+      headers: { 'Content-Type': 'application/json' },
+      body: JSON.stringify(body),
+      signal: options.signal,
+    });
 
-  if (!res.ok) {
-    const text = await res.text();
-    throw new Error(`Ollama API error ${res.status}: ${text}`);
+    if (!res.ok) {
+      const text = await res.text();
+      throw new Error(`Ollama API error ${res.status}: ${text}`);
+    }
+    return res;
   }
 
-  const data = (await res.json()) as OllamaGenerateResponse;
-  return data.response || '';
-}
+  async generate(options: GenerateOptions): Promise<string> {
+    const res = await this.requestGenerate(options, false);
+    const data = (await res.json()) as OllamaGenerateResponse;
+    return data.response || '';
+  }
 
-export async function listModels(): Promise<{ name: string }[]> {
-  const res = await fetch(`${OLLAMA_BASE}/api/tags`);
-  if (!res.ok) throw new Error(`Ollama API error ${res.status}`);
-  const data = (await res.json()) as { models: { name: string }[] };
-  return data.models || [];
-}
+  /** Ollama streams newline-delimited JSON chunks, each with a piece of the response */
+  async generateStream(options: GenerateOptions, onToken: TokenHandler): Promise<string> {
+    const res = await this.requestGenerate(options, true);
+    let full = '';
+    for await (const line of readLines(res.body)) {
+      const chunk = JSON.parse(line) as OllamaGenerateResponse & { error?: string };
+      if (chunk.error) throw new Error(`Ollama API error: ${chunk.error}`);
+      if (chunk.response) {
+        full += chunk.response;
+        onToken(chunk.response);
+      }
+      if (chunk.done) break;
+    }
+    return full;
+  }
+
+  /**
+   * Embed text with Ollama's local embeddings endpoint (used for journal search).
+   */
+  async embed(text: string, model?: string): Promise<number[]> {
+    const res = await fetch(`${this.baseUrl}/api/embeddings`, {
+      method: 'POST',
+      headers: { 'Content-Type': 'application/json' },
+      body: JSON.stringify({ model: model || this.embedModel, prompt: text }),
+    });
+
+    if (!res.ok) {
+      const body = await res.text();
+      throw new Error(`Ollama API error ${res.status}: ${body}`);
+    }
+
+    const data = (await res.json()) as { embedding?: number[] };
+    if (!data.embedding || data.embedding.length === 0) {
+      throw new Error('Ollama returned an empty embedding');
+    }
+    return data.embedding;
+  }
+
+  async listModels(): Promise<{ name: string }[]> {
+    const res = await fetch(`${this.baseUrl}/api/tags`);
+    if (!res.ok) throw new Error(`Ollama API error ${res.status}`);
+    const data = (await res.json()) as { models: { name: string }[] };
+    return data.models || [];
+  }
 
-export async function isAvailable(): Promise<boolean> {
-  try {
-    await fetch(`${OLLAMA_BASE}/api/tags`);
-    return true;
-  } catch {
-    return false;
+  async isAvailable(): Promise<boolean> {
+    try {
+      const res = await fetch(`${this.baseUrl}/api/tags`);
+      return res.ok;
+    } catch {
+      return false;
+    }
   }
 }
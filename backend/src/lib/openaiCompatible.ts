@@ -0,0 +1,118 @@
+/**
+ * Client for OpenAI-compatible local servers (LM Studio, llama.cpp server, vLLM).
+ * Talks to /v1/chat/completions, /v1/embeddings and /v1/models on localhost.
+ */
+
+import type { GenerateOptions, LLMProvider, TokenHandler } from './llm.js';
+import { readLines } from './streams.js';
+
+interface ChatCompletionResponse {
+  choices: { message?: { content?: string } }[];
+}
+
+interface ChatCompletionChunk {
+  choices: { delta?: { content?: string } }[];
+}
+
+export class OpenAICompatibleProvider implements LLMProvider {
+  readonly name = 'openai';
+
+  constructor(
+    private baseUrl: string = (process.env.OPENAI_BASE_URL || 'http://localhost:1234/v1').replace(/\/$/, ''),
+    private model: string = process.env.OPENAI_MODEL || 'local-model',
+    private embedModel: string = process.env.OPENAI_EMBED_MODEL || 'nomic-embed-text',
+    private apiKey: string | undefined = process.env.OPENAI_API_KEY
+  ) {}
+
+  private headers(): Record<string, string> {
+    return {
+      'Content-Type': 'application/json',
+      ...(this.apiKey ? { Authorization: `Bearer ${this.apiKey}` } : {}),
+    };
+  }
+
+  private async requestCompletion(options: GenerateOptions, stream: boolean): Promise<Response> {
+    // `json` is not passed on: response_format support varies across local
+    // servers, so JSON is requested via the prompt only
+    const body = {
+      model: options.model || this.model,
+      messages: [{ role: 'user', content: options.prompt }],
+      stream,
+      temperature: options.temperature ?? 0.7,
+      max_tokens: options.maxTokens ?? 4096,
+      ...(options.topP != null ? { top_p: options.topP } : {}),
+    };
+
+    const res = await fetch(`${this.baseUrl}/chat/completions`, {
+      method: 'POST',
+      headers: this.headers(),
+      body: JSON.stringify(body),
+      signal: options.signal,
+    });
+
+    if (!res.ok) {
+      const text = await res.text();
+      throw new Error(`LLM API error ${res.status}: ${text}`);
+    }
+    return res;
+  }
+
+  async generate(options: GenerateOptions): Promise<string> {
+    const res = await this.requestCompletion(options, false);
+    const data = (await res.json()) as ChatCompletionResponse;
+    return data.choices?.[0]?.message?.content || '';
+  }
+
+  /** Streamed completions arrive as SSE "data: {...}" lines, ending with "data: [DONE]" */
+  async generateStream(options: GenerateOptions, onToken: TokenHandler): Promise<string> {
+    const res = await this.requestCompletion(options, true);
+    let full = '';
+    for await (const line of readLines(res.body)) {
+      if (!line.startsWith('data:')) continue;
+      const payload = line.slice(5).trim();
+      if (payload === '[DONE]') break;
+      const token = (JSON.parse(payload) as ChatCompletionChunk).choices?.[0]?.delta?.content;
+      if (token) {
+        full += token;
+        onToken(token);
+      }
+    }
+    return full;
+  }
+
+  async embed(text: string, model?: string): Promise<number[]> {
+    const res = await fetch(`${this.baseUrl}/embeddings`, {
+      method: 'POST',
+      headers: this.headers(),
+      body: JSON.stringify({ model: model || this.embedModel, input: text }),
+    });
+
+    if (!res.ok) {
+      const body = await res.text();
+      throw new Error(`LLM API error ${res.status}: ${body}`);
+    }
+
+    const data = (await res.json()) as { data?: { embedding: number[] }[] };
+    const embedding = data.data?.[0]?.embedding;
+    if (!embedding || embedding.length === 0) {
+      throw new Error('LLM server returned an empty embedding');
+    }
+    return embedding;
+  }
+
+  async listModels(): Promise<{ name: string }[]> {
+    const res = await fetch(`${this.baseUrl}/models`, { headers: this.headers() });
+    if (!res.ok) throw new Error(`LLM API error ${res.status}`);
+    const data = (await res.json()) as { data?: { id: string }[] };
+    return (data.data || []).map((m) => ({ name: m.id }));
+  }
+
+  async isAvailable(): Promise<boolean> {
+    try {
+      const res = await fetch(`${this.baseUrl}/models`, { headers: this.headers() });
+      return res.ok;
+    } catch {
+      return false;
+    }
+  }
+}
@@ -0,0 +1,208 @@
+/**
+ * Recurrence rules for repeating events, in the RRULE style of iCalendar
+ * (RFC 5545), limited to what the Pool needs:
+ *
+ *   FREQ=DAILY|WEEKLY|MONTHLY   required
+ *   INTERVAL=n                  every n days/weeks/months (default 1)
+ *   BYDAY=MO,TU / 1MO / -1FR    weekdays; with MONTHLY, an optional ordinal
+ *   BYMONTHDAY=15 / -1          days of the month (negative counts from the end)
+ *   UNTIL=20261231              last possible day (inclusive)
+ *   COUNT=10                    stop after this many occurrences
+ *   WKST=SU                     accepted and ignored (see below)
+ *
+ * Rules work on days (YYYY-MM-DD in the user's zone). The series starts on the
+ * day of the event's scheduled_at and keeps its wall-clock time on every day.
+ * Weeks start on Monday, whatever WKST says.
+ */
+
+import { addDays } from './dates.js';
+
+export type Frequency = 'DAILY' | 'WEEKLY' | 'MONTHLY';
+
+export interface WeekdayRule {
+  day: number; // 0 (Sunday) – 6 (Saturday)
+  nth?: number; // MONTHLY only: 1 = first, -1 = last
+}
+
+export interface RecurrenceRule {
+  freq: Frequency;
+  interval: number;
+  byDay?: WeekdayRule[];
+  byMonthDay?: number[];
+  until?: string; // YYYY-MM-DD
+  count?: number;
+}
+
+const WEEKDAY_CODES = ['SU', 'MO', 'TU', 'WE', 'TH', 'FR', 'SA'];
+const FREQUENCIES: Frequency[] = ['DAILY', 'WEEKLY', 'MONTHLY'];
+// Longest span of days walked at once (a COUNT-limited series is walked from its start)
+const MAX_SPAN_DAYS = 366 * 20;
+
+function dayNumber(dateStr: string): number {
+  return Date.parse(`${dateStr}T00:00:00Z`) / (1000 * 60 * 60 * 24);
+}
+
+function weekday(dateStr: string): number {
+  return new Date(`${dateStr}T00:00:00Z`).getUTCDay();
+}
+
+function daysInMonth(year: number, month: number): number {
+  return new Date(Date.UTC(year, month, 0)).getUTCDate();
+}
+
+/** "20261231" or "20261231T235959Z" or "2026-12-31" → "2026-12-31" */
+function parseUntil(value: string): string {
+  const match = value.match(/^(\d{4})-?(\d{2})-?(\d{2})/);
+  if (!match) throw new Error(`Invalid UNTIL "${value}"`);
+  return `${match[1]}-${match[2]}-${match[3]}`;
+}
+
+/** Parse "FREQ=WEEKLY;BYDAY=TU;UNTIL=20261231" (an "RRULE:" prefix is fine) */
+export function parseRRule(text: string): RecurrenceRule {
+  const body = text.trim().replace(/^RRULE:/i, '');
+  const parts = new Map<string, string>();
+  for (const part of body.split(';').filter(Boolean)) {
+    const [key, value] = part.split('=');
+    if (!key || value === undefined) throw new Error(`Invalid recurrence part "${part}"`);
+    parts.set(key.trim().toUpperCase(), value.trim().toUpperCase());
+  }
+
+  const freq = parts.get('FREQ') as Frequency | undefined;
+  if (!freq || !FREQUENCIES.includes(freq)) {
+    throw new Error('Recurrence needs FREQ=DAILY, WEEKLY or MONTHLY');
+  }
+  const rule: RecurrenceRule = { freq, interval: 1 };
+
+  for (const [key, value] of parts) {
+    switch (key) {
+      case 'FREQ':
+        break;
+      case 'INTERVAL':
+        rule.interval = Number(value);
+        if (!Number.isInteger(rule.interval) || rule.interval < 1) throw new Error('INTERVAL must be a positive whole number');
+        break;
+      case 'BYDAY':
+        rule.byDay = value.split(',').map((code) => {
+          const match = code.match(/^([+-]?\d)?(SU|MO|TU|WE|TH|FR|SA)$/);
+          if (!match) throw new Error(`Invalid BYDAY "${code}"`);
+          const nth = match[1] ? Number(match[1]) : undefined;
+          if (nth !== undefined && (freq !== 'MONTHLY' || nth === 0 || Math.abs(nth) > 5)) {
+            throw new Error(`BYDAY "${code}": ordinals (1 to 5, or -1 to -5) only work with FREQ=MONTHLY`);
+          }
+          return { day: WEEKDAY_CODES.indexOf(match[2]), nth };
+        });
+        break;
+      case 'BYMONTHDAY':
+        rule.byMonthDay = value.split(',').map((d) => {
+          const n = Number(d);
+          if (!Number.isInteger(n) || n === 0 || Math.abs(n) > 31) throw new Error(`Invalid BYMONTHDAY "${d}"`);
+          return n;
+        });
+        break;
+      case 'UNTIL':
+        rule.until = parseUntil(value);
+        break;
+      case 'COUNT':
+        rule.count = Number(value);
+        if (!Number.isInteger(rule.count) || rule.count < 1) throw new Error('COUNT must be a positive whole number');
+        break;
+      case 'WKST':
+        // Calendars add it routinely; weeks here always start on Monday
+        if (!WEEKDAY_CODES.includes(value)) throw new Error(`Invalid WKST "${value}"`);
+        break;
+      default:
+        throw new Error(`Unsupported recurrence part "${key}"`);
+    }
+  }
+  if (rule.until && rule.count) {
+    throw new Error('Use UNTIL or COUNT, not both');
+  }
+  return rule;
+}
+
+/** Back to RRULE text (without the "RRULE:" prefix) */
+export function formatRRule(rule: RecurrenceRule): string {
+  const parts = [`FREQ=${rule.freq}`];
+  if (rule.interval !== 1) parts.push(`INTERVAL=${rule.interval}`);
+  if (rule.byDay?.length) parts.push(`BYDAY=${rule.byDay.map((d) => `${d.nth ?? ''}${WEEKDAY_CODES[d.day]}`).join(',')}`);
+  if (rule.byMonthDay?.length) parts.push(`BYMONTHDAY=${rule.byMonthDay.join(',')}`);
+  if (rule.until) parts.push(`UNTIL=${rule.until.replace(/-/g, '')}`);
+  if (rule.count) parts.push(`COUNT=${rule.count}`);
+  return parts.join(';');
+}
+
+/** Whether `dateStr` fits the rule's pattern (ignoring UNTIL/COUNT) */
+function matchesPattern(rule: RecurrenceRule, startStr: string, dateStr: string): boolean {
+  const diff = dayNumber(dateStr) - dayNumber(startStr);
+  if (diff < 0) return false;
+  const [year, month, day] = dateStr.split('-').map(Number);
+  const [startYear, startMonth, startDay] = startStr.split('-').map(Number);
+  const dow = weekday(dateStr);
+
+  switch (rule.freq) {
+    case 'DAILY':
+      return diff % rule.interval === 0 && (!rule.byDay || rule.byDay.some((d) => d.day === dow));
+
+    case 'WEEKLY': {
+      // Count whole weeks between the Mondays starting each week
+      const mondayOffset = (weekday(startStr) + 6) % 7;
+      const week = Math.floor((diff + mondayOffset) / 7);
+      const days = rule.byDay?.map((d) => d.day) ?? [weekday(startStr)];
+      return week % rule.interval === 0 && days.includes(dow);
+    }
+
+    case 'MONTHLY': {
+      const months = (year - startYear) * 12 + (month - startMonth);
+      if (months % rule.interval !== 0) return false;
+      const monthLength = daysInMonth(year, month);
+      if (rule.byDay) {
+        const nthFromStart = Math.floor((day - 1) / 7) + 1;
+        const nthFromEnd = -(Math.floor((monthLength - day) / 7) + 1);
+        return rule.byDay.some(
+          (d) => d.day === dow && (d.nth === undefined || d.nth === nthFromStart || d.nth === nthFromEnd)
+        );
+      }
+      // Without BYMONTHDAY, repeat on the start's day (months too short for it are skipped)
+      const monthDays = rule.byMonthDay ?? [startDay];
+      return monthDays.some((d) => (d > 0 ? d : monthLength + d + 1) === day);
+    }
+  }
+}
+
+/** Days from `fromStr` to `toStr` (inclusive) on which a series starting `startStr` occurs */
+export function occurrencesBetween(rule: RecurrenceRule, startStr: string, fromStr: string, toStr: string): string[] {
+  if (toStr < startStr || toStr < fromStr) return [];
+  const from = fromStr < startStr ? startStr : fromStr;
+  if (dayNumber(toStr) - dayNumber(from) > MAX_SPAN_DAYS) {
+    throw new Error('Recurrence range is too long');
+  }
+  // COUNT needs the series walked from its start (the walk stops once COUNT is reached)
+  const first = rule.count ? startStr : from;
+
+  const days: string[] = [];
+  let seen = 0;
+  for (let d = first; d <= toStr; d = addDays(d, 1)) {
+    if (rule.until && d > rule.until) break;
+    if (!matchesPattern(rule, startStr, d)) continue;
+    seen++;
+    if (rule.count && seen > rule.count) break;
+    if (d >= fromStr) days.push(d);
+  }
+  return days;
+}
+
+export function occursOn(rule: RecurrenceRule, startStr: string, dateStr: string): boolean {
+  return occurrencesBetween(rule, startStr, dateStr, dateStr).length > 0;
+}
+
+/** True once a COUNT- or UNTIL-limited series has no occurrences left on or after `dateStr` */
+export function seriesEnded(rule: RecurrenceRule, startStr: string, dateStr: string): boolean {
+  if (rule.until) return rule.until < dateStr;
+  if (!rule.count) return false;
+  let seen = 0;
+  for (let d = startStr; d < dateStr; d = addDays(d, 1)) {
+    if (!matchesPattern(rule, startStr, d)) continue;
+    if (++seen === rule.count) return true;
+  }
+  return false; // Occurrences still to come
+}
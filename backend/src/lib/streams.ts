@@ -0,0 +1,31 @@
+/**
+ * Helpers for reading streamed HTTP responses from local LLM servers.
+ */
+
+/** Yield complete lines from a fetch response body (NDJSON / SSE). */
+export async function* readLines(body: ReadableStream<Uint8Array> | null): AsyncGenerator<string> {
+  if (!body) return;
+  const reader = body.getReader();
+  const decoder = new TextDecoder();
+  let buffer = '';
+
+  try {
+    while (true) {
+      const { done, value } = await reader.read();
+      if (done) break;
+      buffer += decoder.decode(value, { stream: true });
+
+      let newline = buffer.indexOf('\n');
+      while (newline !== -1) {
+        const line = buffer.slice(0, newline).trim();
+        buffer = buffer.slice(newline + 1);
+        if (line) yield line;
+        newline = buffer.indexOf('\n');
+      }
+    }
+    const rest = (buffer + decoder.decode()).trim();
+    if (rest) yield rest;
+  } finally {
+    reader.releaseLock();
+  }
+}
@@ -1,5 +1,5 @@
 import express from 'express';
-import { CategoryService } from '../services/categoryService.js';
+import { CategoryInUseError, CategoryService } from '../services/categoryService.js';
 
 const router = express.Router();
 const categoryService = new CategoryService();
@@ -14,11 +14,11 @@ router.post('/initialize', async (req, res) => {
   }
 });
 
-// Get all categories
+// Get all categories (?includeArchived=true to list archived ones too)
 router.get('/', async (req, res) => {
   try {
     const enabledOnly = req.query.enabled === 'true';
-    const categories = await categoryService.findAll(enabledOnly);
+    const categories = await categoryService.findAll(enabledOnly, req.query.includeArchived === 'true');
     res.json(categories);
   } catch (error: any) {
     res.status(500).json({ error: error.message });
@@ -58,13 +58,61 @@ router.put('/:id', async (req, res) => {
   }
 });
 
-// Delete category
+// What still uses a category (tasks, Pool items, feedback)
+router.get('/:id/references', async (req, res) => {
+  try {
+    const category = await categoryService.findById(req.params.id);
+    if (!category) {
+      return res.status(404).json({ error: 'Category not found' });
+    }
+    res.json(await categoryService.getReferences(req.params.id));
+  } catch (error: any) {
+    res.status(500).json({ error: error.message });
+  }
+});
+
+// Archive category (hidden from planning; history kept)
+router.post('/:id/archive', async (req, res) => {
+  try {
+    const category = await categoryService.archive(req.params.id);
+    res.json(category);
+  } catch (error: any) {
+    res.status(400).json({ error: error.message });
+  }
+});
+
+router.post('/:id/unarchive', async (req, res) => {
+  try {
+    const category = await categoryService.unarchive(req.params.id);
+    res.json(category);
+  } catch (error: any) {
+    res.status(400).json({ error: error.message });
+  }
+});
+
+// Merge category into another: body { targetId }
+router.post('/:id/merge', async (req, res) => {
+  try {
+    if (!req.body?.targetId) {
+      return res.status(400).json({ error: 'targetId is required' });
+    }
+    const result = await categoryService.merge(req.params.id, req.body.targetId);
+    res.json({ message: `Merged into ${result.target.name}`, ...result });
+  } catch (error: any) {
+    res.status(400).json({ error: error.message });
+  }
+});
+
+// Delete category (refused while anything still uses it)
 router.delete('/:id', async (req, res) => {
   try {
     await categoryService.delete(req.params.id);
     res.json({ message: 'Category deleted' });
   } catch (error: any) {
-    res.status(500).json({ error: error.message });
+    if (error instanceof CategoryInUseError) {
+      return res.status(409).json({ error: error.message, references: error.references });
+    }
+    res.status(400).json({ error: error.message });
   }
 });
 
@@ -0,0 +1,108 @@
+import express from 'express';
+import { parsePlanDate } from '../lib/dates.js';
+import { FeedbackService } from '../services/feedbackService.js';
+import { extractFeedbackInsights, queueInsightExtraction } from '../services/feedbackAnalyzer.js';
+
+const router = express.Router();
+const feedbackService = new FeedbackService();
+
+// Get feedback history
+router.get('/history', async (req, res) => {
+  try {
+    const { days, limit } = req.query;
+    const history = await feedbackService.getHistory(
+      days ? parseInt(days as string) : 30,
+      limit ? parseInt(limit as string) : undefined
+    );
+    res.json(history);
+  } catch (error: any) {
+    res.status(500).json({ error: error.message });
+  }
+});
+
+// Get feedback by date
+router.get('/date/:date', async (req, res) => {
+  try {
+    const date = parsePlanDate(req.params.date);
+    if (!date) {
+      return res.status(400).json({ error: 'Invalid date' });
+    }
+    const feedback = await feedbackService.findByDate(date);
+    if (!feedback) {
+      return res.status(404).json({ error: 'No feedback for this date' });
+    }
+    res.json(feedback);
+  } catch (error: any) {
+    res.status(500).json({ error: error.message });
+  }
+});
+
+// Get feedback for a plan
+router.get('/plan/:planId', async (req, res) => {
+  try {
+    const feedback = await feedbackService.findByPlanId(req.params.planId);
+    if (!feedback) {
+      return res.status(404).json({ error: 'No feedback for this plan' });
+    }
+    res.json(feedback);
+  } catch (error: any) {
+    res.status(500).json({ error: error.message });
+  }
+});
+
+// Create or update feedback for a plan (rating, elaboration, or skip for today)
+router.put('/plan/:planId', async (req, res) => {
+  try {
+    const feedback = await feedbackService.upsert(req.params.planId, req.body);
+    if ((feedback.textElaboration || feedback.activityLog) && !feedback.extractedInsights) {
+      queueInsightExtraction(feedback.id);
+    }
+    res.json(feedback);
+  } catch (error: any) {
+    res.status(400).json({ error: error.message });
+  }
+});
+
+// Save the activity log separately from the quick rating
+router.put('/plan/:planId/activity-log', async (req, res) => {
+  try {
+    const { activityLog } = req.body;
+    if (typeof activityLog !== 'string') {
+      return res.status(400).json({ error: 'activityLog is required' });
+    }
+    const feedback = await feedbackService.saveActivityLog(req.params.planId, activityLog);
+    queueInsightExtraction(feedback.id);
+    res.json(feedback);
+  } catch (error: any) {
+    res.status(400).json({ error: error.message });
+  }
+});
+
+// Re-run insight extraction for a plan's feedback (waits for the LLM)
+router.post('/plan/:planId/extract', async (req, res) => {
+  try {
+    const existing = await feedbackService.findByPlanId(req.params.planId);
+    if (!existing) {
+      return res.status(404).json({ error: 'No feedback for this plan' });
+    }
+    const feedback = await extractFeedbackInsights(existing.id);
+    res.json(feedback);
+  } catch (error: any) {
+    res.status(500).json({ error: error.message });
+  }
+});
+
+// Delete feedback for a plan
+router.delete('/plan/:planId', async (req, res) => {
+  try {
+    const deleted = await feedbackService.delete(req.params.planId);
+    if (!deleted) {
+      return res.status(404).json({ error: 'Feedback not found' });
+    }
+    res.json({ message: 'Feedback deleted' });
+  } catch (error: any) {
+    res.status(500).json({ error: error.message });
+  }
+});
+
+export default router;
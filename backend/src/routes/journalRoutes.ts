@@ -1,5 +1,6 @@
 import express from 'express';
-import { JournalService } from '../services/journalService.js';
+import { JournalService, withoutEmbedding } from '../services/journalService.js';
+import { dayRange, isDateOnly, startOfDay } from '../lib/dates.js';
 
 const router = express.Router();
 const journalService = new JournalService();
@@ -8,7 +9,7 @@ const journalService = new JournalService();
 router.post('/', async (req, res) => {
   try {
     const entry = await journalService.create(req.body);
-    res.json(entry);
+    res.json(withoutEmbedding(entry));
   } catch (error: any) {
     res.status(400).json({ error: error.message });
   }
@@ -23,13 +24,18 @@ router.get('/range', async (req, res) => {
       return res.status(400).json({ error: 'startDate and endDate are required' });
     }
 
-    const entries = await journalService.findByDateRange(
-      new Date(startDate as string),
-      new Date(endDate as string),
-      limit ? parseInt(limit as string) : undefined
-    );
+    // Plain YYYY-MM-DD dates cover whole days in the user's timezone
+    const start = isDateOnly(startDate as string) ? startOfDay(startDate as string) : new Date(startDate as string);
+    const end = isDateOnly(endDate as string)
+      ? new Date(dayRange(endDate as string).lt.getTime() - 1)
+      : new Date(endDate as string);
+    if (isNaN(start.getTime()) || isNaN(end.getTime())) {
+      return res.status(400).json({ error: 'Invalid date' });
+    }
+
+    const entries = await journalService.findByDateRange(start, end, limit ? parseInt(limit as string) : undefined);
     
-    res.json(entries);
+    res.json(entries.map(withoutEmbedding));
   } catch (error: any) {
     res.status(500).json({ error: error.message });
   }
@@ -40,7 +46,34 @@ router.get('/recent', async (req, res) => {
   try {
     const days = req.query.days ? parseInt(req.query.days as string) : 7;
     const entries = await journalService.getRecent(days);
-    res.json(entries);
+    res.json(entries.map(withoutEmbedding));
+  } catch (error: any) {
+    res.status(500).json({ error: error.message });
+  }
+});
+
+// Semantic search over journal entries (ranked by similarity)
+router.get('/search', async (req, res) => {
+  try {
+    const { q, limit } = req.query;
+    if (!q || typeof q !== 'string' || !q.trim()) {
+      return res.status(400).json({ error: 'q is required' });
+    }
+    const results = await journalService.search(q, {
+      limit: limit ? parseInt(limit as string) : 10,
+    });
+    res.json(results);
+  } catch (error: any) {
+    res.status(500).json({ error: error.message });
+  }
+});
+
+// Compute embeddings for entries that don't have one yet
+router.post('/embeddings/backfill', async (req, res) => {
+  try {
+    const limit = req.body?.limit ? parseInt(req.body.limit) : 50;
+    const embedded = await journalService.backfillEmbeddings(limit);
+    res.json({ message: 'Embedding backfill complete', embedded });
   } catch (error: any) {
     res.status(500).json({ error: error.message });
   }
@@ -53,7 +86,7 @@ router.get('/:id', async (req, res) => {
     if (!entry) {
       return res.status(404).json({ error: 'Journal entry not found' });
     }
-    res.json(entry);
+    res.json(withoutEmbedding(entry));
   } catch (error: any) {
     res.status(500).json({ error: error.message });
   }
@@ -63,7 +96,7 @@ router.get('/:id', async (req, res) => {
 router.put('/:id', async (req, res) => {
   try {
     const entry = await journalService.update(req.params.id, req.body);
-    res.json(entry);
+    res.json(withoutEmbedding(entry));
   } catch (error: any) {
     res.status(400).json({ error: error.message });
   }
@@ -0,0 +1,36 @@
+import express from 'express';
+import { findPatternInsights, minePatterns } from '../services/patternMiner.js';
+
+const router = express.Router();
+
+// Get pattern insights (active only unless includeInactive=true)
+router.get('/', async (req, res) => {
+  try {
+    const { type, minConfidence, includeInactive } = req.query;
+    const insights = await findPatternInsights({
+      patternType: type as string | undefined,
+      minConfidence: minConfidence ? parseFloat(minConfidence as string) : undefined,
+      includeInactive: includeInactive === 'true',
+    });
+    res.json(
+      insights.map((i) => ({
+        ...i,
+        patternData: JSON.parse(i.patternData),
+      }))
+    );
+  } catch (error: any) {
+    res.status(500).json({ error: error.message });
+  }
+});
+
+// Run the pattern miner now
+router.post('/mine', async (req, res) => {
+  try {
+    const result = await minePatterns();
+    res.json({ message: 'Pattern mining complete', ...result });
+  } catch (error: any) {
+    res.status(500).json({ error: error.message });
+  }
+});
+
+export default router;
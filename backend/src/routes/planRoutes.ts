@@ -1,69 +1,187 @@
 import express from 'express';
+import { parsePlanDate } from '../lib/dates.js';
 import { DailyPlanService } from '../services/dailyPlanService.js';
 import { CategoryService } from '../services/categoryService.js';
-import { generatePlan } from '../services/planningEngine.js';
-import prisma from '../lib/prisma.js';
+import { generatePlan, isGenerationInFlight, PlanConflictError, PlanSource } from '../services/planningEngine.js';
+import { findGenerationAttempts } from '../services/generationLog.js';
+import { replanRemainder, swapTask } from '../services/replanner.js';
+import { feedToICS, planToICS } from '../services/calendarService.js';
+import { completionOfferFor } from '../services/poolLifecycle.js';
+import { deleteTask, moveTask, returnTaskToPool, updateTask } from '../services/taskEditor.js';
 
 const router = express.Router();
 const planService = new DailyPlanService();
 const categoryService = new CategoryService();
 
-// Generate a new daily plan using the LLM (Phase 3)
-router.post('/generate', async (req, res) => {
-  try {
-    const dateStr = (req.body?.date ?? req.query.date) as string;
-    if (!dateStr) {
-      return res.status(400).json({ error: 'date is required (YYYY-MM-DD)' });
-    }
-    const forDate = new Date(dateStr);
-    if (isNaN(forDate.getTime())) {
-      return res.status(400).json({ error: 'Invalid date' });
-    }
+/**
+ * Shared checks for plan generation: parse the date, refuse to overwrite an
+ * existing plan unless replace is set, and make sure categories exist.
+ * Returns the normalized date, or an HTTP error to send back.
+ */
+async function prepareGeneration(
+  dateStr: string | undefined,
+  replace: boolean
+): Promise<{ forDate: Date } | { status: number; body: Record<string, unknown> }> {
+  if (!dateStr) {
+    return { status: 400, body: { error: 'date is required (YYYY-MM-DD)' } };
+  }
+  // Start of that day in the user's timezone
+  const forDate = parsePlanDate(dateStr);
+  if (!forDate) {
+    return { status: 400, body: { error: 'Invalid date' } };
+  }
 
-    // Normalize to start of day
-    forDate.setHours(0, 0, 0, 0);
+  // Don't delete or race a plan that another request is still generating
+  if (isGenerationInFlight(forDate)) {
+    return { status: 409, body: { error: 'A plan for this date is already being generated' } };
+  }
 
-    // Optional: prevent overwriting existing plan (set replace: true in body to allow)
-    const replace = req.body?.replace === true;
-    const existing = await planService.findByDate(forDate);
-    if (existing && !replace) {
-      return res.status(409).json({
+  // Optional: prevent overwriting existing plan (set replace: true to allow)
+  const existing = await planService.findByDate(forDate);
+  if (existing && !replace) {
+    return {
+      status: 409,
+      body: {
         error: 'A plan already exists for this date',
         planId: existing.id,
-        message: 'Use replace: true in body to regenerate.',
-      });
-    }
+        message: 'Use replace: true in body to regenerate (the current plan is kept as an earlier revision).',
+      },
+    };
+  }
 
-    if (existing && replace) {
-      await prisma.task.deleteMany({ where: { dailyPlanId: existing.id } });
-      await prisma.dailyFeedback.deleteMany({ where: { dailyPlanId: existing.id } }).catch(() => {});
-      await prisma.dailyPlan.delete({ where: { id: existing.id } });
+  // Ensure default categories exist for the LLM to use
+  await categoryService.initializeDefaultCategories();
+
+  return { forDate };
+}
+
+function planMessage(source: PlanSource): string {
+  return source === 'offline'
+    ? 'Plan generated offline (rule-based planner; the LLM was not used)'
+    : 'Plan generated successfully';
+}
+
+// Generate a plan and stream progress as Server-Sent Events.
+// Events: "progress" (phase), "token" (LLM text), then "plan" or "error".
+// Closing the connection cancels the LLM request and nothing is saved.
+router.get('/generate/stream', async (req, res) => {
+  const prepared = await prepareGeneration(req.query.date as string | undefined, req.query.replace === 'true').catch(
+    (error: any) => ({ status: 500, body: { error: error.message } })
+  );
+  if ('status' in prepared) {
+    return res.status(prepared.status).json(prepared.body);
+  }
+
+  res.writeHead(200, {
+    'Content-Type': 'text/event-stream',
+    'Cache-Control': 'no-cache',
+    Connection: 'keep-alive',
+  });
+  const send = (event: string, data: unknown) => {
+    if (!res.writableEnded) res.write(`event: ${event}\ndata: ${JSON.stringify(data)}\n\n`);
+  };
+
+  const abort = new AbortController();
+  res.on('close', () => {
+    if (!res.writableEnded) abort.abort();
+  });
+
+  try {
+    const { planId, taskCount, source, offlineReason, revision, carriedOverCount, adjustments } = await generatePlan(prepared.forDate, {
+      signal: abort.signal,
+      offline: req.query.offline === 'true',
+      replace: req.query.replace === 'true',
+      carryOver: req.query.carryOver !== 'false',
+      onProgress: (event) => {
+        if (event.type === 'token') send('token', { text: event.text });
+        else send('progress', { phase: event.phase, message: event.message });
+      },
+    });
+    const plan = await planService.findById(planId);
+    send('plan', { message: planMessage(source), planId, taskCount, source, offlineReason, revision, carriedOverCount, adjustments, plan });
+  } catch (error: any) {
+    if (abort.signal.aborted) return; // Client went away; nobody to tell
+    if (error instanceof PlanConflictError) {
+      send('error', { error: error.message, status: 409, planId: error.planId });
+      return res.end();
     }
+    console.error('Plan generation error:', error);
+    send('error', {
+      error: error.message || 'Plan generation failed',
+      hint: 'Ensure the LLM server (Ollama or LM Studio) is running and the model is available (e.g. ollama pull llama3.1:70b)',
+    });
+  }
+  res.end();
+});
 
-    // Ensure default categories exist for the LLM to use
-    await categoryService.initializeDefaultCategories();
+// Generate a new daily plan using the LLM (Phase 3)
+router.post('/generate', async (req, res) => {
+  try {
+    const prepared = await prepareGeneration((req.body?.date ?? req.query.date) as string | undefined, req.body?.replace === true);
+    if ('status' in prepared) {
+      return res.status(prepared.status).json(prepared.body);
+    }
 
-    const { planId, taskCount } = await generatePlan(forDate);
+    const { planId, taskCount, source, offlineReason, revision, carriedOverCount, adjustments } = await generatePlan(prepared.forDate, {
+      offline: req.body?.offline === true,
+      replace: req.body?.replace === true,
+      carryOver: req.body?.carryOver !== false,
+    });
     const plan = await planService.findById(planId);
     res.status(201).json({
-      message: 'Plan generated successfully',
+      message: planMessage(source),
       planId,
       taskCount,
+      source,
+      offlineReason,
+      revision,
+      carriedOverCount,
+      adjustments,
       plan,
     });
   } catch (error: any) {
+    if (error instanceof PlanConflictError) {
+      return res.status(409).json({ error: error.message, planId: error.planId });
+    }
     console.error('Plan generation error:', error);
     res.status(500).json({
       error: error.message || 'Plan generation failed',
-      hint: 'Ensure Ollama is running and the model is available (e.g. ollama pull llama3.1:70b)',
+      hint: 'Ensure the LLM server (Ollama or LM Studio) is running and the model is available (e.g. ollama pull llama3.1:70b)',
     });
   }
 });
 
+// Get recorded LLM attempts (first try + repairs) for diagnosing generation
+router.get('/generation-attempts', async (req, res) => {
+  try {
+    const { date, planId, limit } = req.query;
+    const planDate = date ? parsePlanDate(date as string) : undefined;
+    if (planDate === null) {
+      return res.status(400).json({ error: 'Invalid date' });
+    }
+    const attempts = await findGenerationAttempts({
+      planDate,
+      dailyPlanId: planId as string | undefined,
+      limit: limit ? parseInt(limit as string) : undefined,
+    });
+    res.json(
+      attempts.map((a) => ({
+        ...a,
+        errors: a.errors ? JSON.parse(a.errors) : [],
+      }))
+    );
+  } catch (error: any) {
+    res.status(500).json({ error: error.message });
+  }
+});
+
 // Get plan by date
 router.get('/date/:date', async (req, res) => {
   try {
-    const date = new Date(req.params.date);
+    const date = parsePlanDate(req.params.date);
+    if (!date) {
+      return res.status(400).json({ error: 'Invalid date' });
+    }
     const plan = await planService.findByDate(date);
     
     if (!plan) {
@@ -76,6 +194,78 @@ router.get('/date/:date', async (req, res) => {
   }
 });
 
+// List every revision for a date (active and superseded), newest first
+router.get('/date/:date/revisions', async (req, res) => {
+  try {
+    const date = parsePlanDate(req.params.date);
+    if (!date) {
+      return res.status(400).json({ error: 'Invalid date' });
+    }
+    res.json(await planService.findRevisions(date));
+  } catch (error: any) {
+    res.status(500).json({ error: error.message });
+  }
+});
+
+// Make a superseded revision the active plan for its date again
+router.post('/:planId/restore', async (req, res) => {
+  try {
+    const target = await planService.findById(req.params.planId);
+    if (!target) {
+      return res.status(404).json({ error: 'Plan not found' });
+    }
+    if (isGenerationInFlight(target.date)) {
+      return res.status(409).json({ error: 'A plan for this date is being generated; try again when it finishes' });
+    }
+    const plan = await planService.restoreRevision(target.id);
+    res.json(plan);
+  } catch (error: any) {
+    res.status(400).json({ error: error.message });
+  }
+});
+
+// Replan the rest of the day after "now" (body.now optional, ISO time); keeps done tasks and events
+router.post('/:planId/replan', async (req, res) => {
+  try {
+    const now = req.body?.now ? new Date(req.body.now) : new Date();
+    if (isNaN(now.getTime())) {
+      return res.status(400).json({ error: 'Invalid now' });
+    }
+    const result = await replanRemainder(req.params.planId, now, { offline: req.body?.offline === true });
+    const plan = await planService.findById(result.planId);
+    res.json({ ...result, message: planMessage(result.source), plan });
+  } catch (error: any) {
+    if (error instanceof PlanConflictError) {
+      return res.status(409).json({ error: error.message });
+    }
+    res.status(400).json({ error: error.message });
+  }
+});
+
+// Calendar feed of active plans' scheduled tasks (?past=7&future=14 days)
+router.get('/feed.ics', async (req, res) => {
+  try {
+    const past = Math.min(Math.max(Number(req.query.past ?? 7) || 0, 0), 365);
+    const future = Math.min(Math.max(Number(req.query.future ?? 14) || 0, 0), 365);
+    res.type('text/calendar').send(await feedToICS(past, future));
+  } catch (error: any) {
+    res.status(500).json({ error: error.message });
+  }
+});
+
+// One plan's scheduled tasks as an .ics file
+router.get('/:planId/ics', async (req, res) => {
+  try {
+    const ics = await planToICS(req.params.planId);
+    res
+      .type('text/calendar')
+      .attachment(`daylaunch-${req.params.planId}.ics`)
+      .send(ics);
+  } catch (error: any) {
+    res.status(400).json({ error: error.message });
+  }
+});
+
 // Get plan by ID
 router.get('/:id', async (req, res) => {
   try {
@@ -92,7 +282,11 @@ router.get('/:id', async (req, res) => {
 // Create daily plan
 router.post('/', async (req, res) => {
   try {
-    const plan = await planService.create(req.body);
+    const date = parsePlanDate(req.body?.date);
+    if (!date) {
+      return res.status(400).json({ error: 'date is required (YYYY-MM-DD)' });
+    }
+    const plan = await planService.create({ ...req.body, date });
     res.json(plan);
   } catch (error: any) {
     res.status(400).json({ error: error.message });
@@ -112,21 +306,92 @@ router.post('/:planId/tasks', async (req, res) => {
   }
 });
 
-// Update task status
+// Swap one task for an LLM alternative (body: sameCategory, sameType, offline)
+router.post('/tasks/:taskId/swap', async (req, res) => {
+  try {
+    const result = await swapTask(req.params.taskId, {
+      sameCategory: req.body?.sameCategory === true,
+      sameType: req.body?.sameType === true,
+      offline: req.body?.offline === true,
+    });
+    res.json(result);
+  } catch (error: any) {
+    if (error instanceof PlanConflictError) {
+      return res.status(409).json({ error: error.message });
+    }
+    res.status(400).json({ error: error.message });
+  }
+});
+
+// Update task status. in_progress starts a timer; completing stops it
+// (or send actualDurationMinutes) and records the completion
 router.patch('/tasks/:taskId/status', async (req, res) => {
   try {
-    const { status, notes } = req.body;
+    const { status, notes, actualDurationMinutes } = req.body;
     if (!status) {
       return res.status(400).json({ error: 'Status is required' });
     }
     
-    const task = await planService.updateTaskStatus(req.params.taskId, status, notes);
+    const task = await planService.updateTaskStatus(req.params.taskId, status, notes, actualDurationMinutes);
+    // Finishing a Pool task may mean it's done for good; let the user decide
+    const completionOffer = await completionOfferFor(task);
+    res.json(completionOffer ? { ...task, completionOffer } : task);
+  } catch (error: any) {
+    res.status(400).json({ error: error.message });
+  }
+});
+
+// Edit a task: title, description, categoryId, scheduledTime ("HH:MM" or ISO, null clears),
+// durationMinutes, priority, notes. Status has its own route.
+router.patch('/tasks/:taskId', async (req, res) => {
+  try {
+    if (req.body?.status !== undefined) {
+      return res.status(400).json({ error: 'Change status with PATCH /tasks/:taskId/status' });
+    }
+    const task = await updateTask(req.params.taskId, req.body ?? {});
     res.json(task);
   } catch (error: any) {
     res.status(400).json({ error: error.message });
   }
 });
 
+// Move a task to another day (body: date, optional time "HH:MM" or null)
+router.post('/tasks/:taskId/move', async (req, res) => {
+  try {
+    const { date, time } = req.body ?? {};
+    if (!date) {
+      return res.status(400).json({ error: 'date is required (YYYY-MM-DD)' });
+    }
+    const result = await moveTask(req.params.taskId, date, time);
+    res.json(result);
+  } catch (error: any) {
+    if (error instanceof PlanConflictError) {
+      return res.status(409).json({ error: error.message });
+    }
+    res.status(400).json({ error: error.message });
+  }
+});
+
+// Take a task off its plan and back to the Pool
+router.post('/tasks/:taskId/return-to-pool', async (req, res) => {
+  try {
+    const result = await returnTaskToPool(req.params.taskId);
+    res.json(result);
+  } catch (error: any) {
+    res.status(400).json({ error: error.message });
+  }
+});
+
+// Delete a task
+router.delete('/tasks/:taskId', async (req, res) => {
+  try {
+    await deleteTask(req.params.taskId);
+    res.json({ message: 'Task deleted' });
+  } catch (error: any) {
+    res.status(400).json({ error: error.message });
+  }
+});
+
 // Get task history
 router.get('/tasks/history', async (req, res) => {
   try {
@@ -1,5 +1,11 @@
 import express from 'express';
+import { addDays, isDateOnly, parsePlanDate, todayStr } from '../lib/dates.js';
 import { PoolService } from '../services/poolService.js';
+import { importICS } from '../services/calendarService.js';
+import { completeFromTask } from '../services/poolLifecycle.js';
+import { findForgotten } from '../services/poolStaleness.js';
+import { dismissIdea, findIdeaOffers, promoteIdea } from '../services/carryOver.js';
+import { confirmCapture, previewCapture } from '../services/quickCapture.js';
 
 const router = express.Router();
 const poolService = new PoolService();
@@ -19,11 +25,12 @@ router.get('/', async (req, res) => {
   }
 });
 
-// Get pool items available for a specific date (respects cooldown)
+// Get pool items available for a specific date (respects cooldown and use caps);
+// `unavailable` lists the tasks and aspirations left out, with reasons
 router.get('/available/:date', async (req, res) => {
   try {
-    const date = new Date(req.params.date);
-    if (isNaN(date.getTime())) {
+    const date = parsePlanDate(req.params.date);
+    if (!date) {
       return res.status(400).json({ error: 'Invalid date' });
     }
     const available = await poolService.getAvailableForDate(date);
@@ -33,6 +40,140 @@ router.get('/available/:date', async (req, res) => {
   }
 });
 
+// Import events from an .ics file: raw text/calendar body, or JSON { ics: "..." }
+router.post(
+  '/import/ics',
+  express.text({ type: ['text/calendar', 'text/plain', 'application/octet-stream'], limit: '5mb' }),
+  async (req, res) => {
+    try {
+      const text = typeof req.body === 'string' ? req.body : req.body?.ics;
+      if (!text || typeof text !== 'string') {
+        return res.status(400).json({ error: 'Send the .ics file as a text/calendar body or as { ics }' });
+      }
+      const result = await importICS(text);
+      res.json(result);
+    } catch (error: any) {
+      res.status(400).json({ error: error.message });
+    }
+  }
+);
+
+// Quick capture, step 1: free text (one item per line) → drafts to review. Nothing is saved.
+// Body: { text, offline? } — offline skips the LLM and classifies by rules
+router.post('/capture', async (req, res) => {
+  try {
+    const { text, offline } = req.body;
+    if (!text || typeof text !== 'string') {
+      return res.status(400).json({ error: 'text is required' });
+    }
+    const preview = await previewCapture(text, { offline: offline === true });
+    res.json(preview);
+  } catch (error: any) {
+    res.status(400).json({ error: error.message });
+  }
+});
+
+// Quick capture, step 2: create Pool items from the reviewed drafts ({ items })
+router.post('/capture/confirm', async (req, res) => {
+  try {
+    const { items } = req.body;
+    if (!Array.isArray(items) || items.length === 0) {
+      return res.status(400).json({ error: 'items must be a non-empty array of drafts' });
+    }
+    const result = await confirmCapture(items);
+    res.status(result.created.length > 0 ? 201 : 400).json(result);
+  } catch (error: any) {
+    res.status(500).json({ error: error.message });
+  }
+});
+
+// Items finished recently (?days=14), newest first
+router.get('/recently-finished', async (req, res) => {
+  try {
+    const days = req.query.days ? parseInt(req.query.days as string) : 14;
+    const items = await poolService.findRecentlyFinished(isNaN(days) ? 14 : days);
+    res.json(items);
+  } catch (error: any) {
+    res.status(500).json({ error: error.message });
+  }
+});
+
+// Aspirations that have waited a long time (?limit=20), with why
+router.get('/forgotten', async (req, res) => {
+  try {
+    const limit = req.query.limit ? parseInt(req.query.limit as string) : 20;
+    const forgotten = await findForgotten(isNaN(limit) ? 20 : limit);
+    res.json(forgotten);
+  } catch (error: any) {
+    res.status(500).json({ error: error.message });
+  }
+});
+
+// The planner's own ideas from recent days that went untouched: keep them or let them go
+router.get('/offers', async (req, res) => {
+  try {
+    const offers = await findIdeaOffers();
+    res.json(offers);
+  } catch (error: any) {
+    res.status(500).json({ error: error.message });
+  }
+});
+
+// Keep an idea as a Pool item (body: type "aspiration" (default) or "task", optional title)
+router.post('/offers/:taskId/promote', async (req, res) => {
+  try {
+    const item = await promoteIdea(req.params.taskId, { type: req.body?.type, title: req.body?.title });
+    res.status(201).json(item);
+  } catch (error: any) {
+    res.status(400).json({ error: error.message });
+  }
+});
+
+// Let an idea go
+router.post('/offers/:taskId/dismiss', async (req, res) => {
+  try {
+    await dismissIdea(req.params.taskId);
+    res.json({ message: 'Idea let go' });
+  } catch (error: any) {
+    res.status(400).json({ error: error.message });
+  }
+});
+
+// Bring a forgotten item back: active, and featured in the next few plans
+router.post('/:id/revive', async (req, res) => {
+  try {
+    const item = await poolService.revive(req.params.id);
+    res.json(item);
+  } catch (error: any) {
+    res.status(400).json({ error: error.message });
+  }
+});
+
+// Mark an item finished, e.g. accepting a task's completion offer: body { taskId? }
+router.post('/:id/complete', async (req, res) => {
+  try {
+    await completeFromTask(req.params.id, req.body?.taskId);
+    const item = await poolService.findById(req.params.id);
+    res.json(item);
+  } catch (error: any) {
+    res.status(400).json({ error: error.message });
+  }
+});
+
+// Why an item is or isn't available on a date (?date=YYYY-MM-DD, default today)
+router.get('/:id/availability', async (req, res) => {
+  try {
+    const date = parsePlanDate((req.query.date as string) || todayStr());
+    if (!date) {
+      return res.status(400).json({ error: 'Invalid date' });
+    }
+    const explanation = await poolService.explainAvailability(req.params.id, date);
+    res.json(explanation);
+  } catch (error: any) {
+    res.status(400).json({ error: error.message });
+  }
+});
+
 // Get pool item by ID
 router.get('/:id', async (req, res) => {
   try {
@@ -66,6 +207,53 @@ router.put('/:id', async (req, res) => {
   }
 });
 
+// Occurrences of a recurring event (?from=YYYY-MM-DD&to=YYYY-MM-DD; default the next 4 weeks)
+router.get('/:id/occurrences', async (req, res) => {
+  try {
+    const from = (req.query.from as string) || todayStr();
+    const to = (req.query.to as string) || addDays(from, 27);
+    if (!isDateOnly(from) || !isDateOnly(to)) {
+      return res.status(400).json({ error: 'from and to must be YYYY-MM-DD' });
+    }
+    const occurrences = await poolService.listOccurrences(req.params.id, from, to);
+    res.json(occurrences);
+  } catch (error: any) {
+    res.status(400).json({ error: error.message });
+  }
+});
+
+// Skip, move or annotate one occurrence: body { status?, scheduledAt?, scheduledEnd?, notes? }
+router.put('/:id/occurrences/:date', async (req, res) => {
+  try {
+    if (!isDateOnly(req.params.date)) {
+      return res.status(400).json({ error: 'Date must be YYYY-MM-DD' });
+    }
+    const { status, scheduledAt, scheduledEnd, notes } = req.body ?? {};
+    const occurrence = await poolService.setOccurrence(req.params.id, req.params.date, {
+      status,
+      scheduledAt: scheduledAt ? new Date(scheduledAt) : scheduledAt,
+      scheduledEnd: scheduledEnd ? new Date(scheduledEnd) : scheduledEnd,
+      notes,
+    });
+    res.json(occurrence);
+  } catch (error: any) {
+    res.status(400).json({ error: error.message });
+  }
+});
+
+// Reset one occurrence to the event's rule
+router.delete('/:id/occurrences/:date', async (req, res) => {
+  try {
+    if (!isDateOnly(req.params.date)) {
+      return res.status(400).json({ error: 'Date must be YYYY-MM-DD' });
+    }
+    await poolService.clearOccurrence(req.params.id, req.params.date);
+    res.json({ message: 'Occurrence reset' });
+  } catch (error: any) {
+    res.status(400).json({ error: error.message });
+  }
+});
+
 // Delete pool item
 router.delete('/:id', async (req, res) => {
   try {
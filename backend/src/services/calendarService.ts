@@ -0,0 +1,220 @@
+/**
+ * Calendar Service: .ics files in and out, all local.
+ * - importICS: calendar events become event Pool items (matched by UID, so a
+ *   re-import updates instead of duplicating)
+ * - planToICS / feedToICS: a plan's scheduled tasks as calendar events
+ */
+
+import { Prisma } from '@prisma/client';
+import prisma from '../lib/prisma.js';
+import { addDays, startOfDay, toDateStr, todayStr } from '../lib/dates.js';
+import { ICalEvent, ICalOutputEvent, parseICS, serializeICS } from '../lib/ical.js';
+import { formatRRule, occursOn, parseRRule } from '../lib/recurrence.js';
+import { eventOverReason } from './poolLifecycle.js';
+import { PoolService } from './poolService.js';
+
+const poolService = new PoolService();
+
+export interface ImportResult {
+  created: number;
+  updated: number;
+  skipped: number; // Unreadable events, or cancelled ones we never had
+  occurrences: number; // Skipped or moved days of recurring events
+  warnings: string[];
+}
+
+// Tasks without a duration show as this long in calendars
+const DEFAULT_EXPORT_MINUTES = 30;
+
+/** One VEVENT (a single event or a whole series) into the Pool */
+async function importSeries(tx: Prisma.TransactionClient, event: ICalEvent, result: ImportResult): Promise<void> {
+  const existing = await tx.poolItem.findUnique({ where: { externalUid: event.uid } });
+  if (existing && existing.type !== 'event') {
+    result.warnings.push(`"${event.summary}": UID already belongs to a ${existing.type}; skipped`);
+    result.skipped++;
+    return;
+  }
+  if (event.cancelled) {
+    if (existing) {
+      if (await poolService.setStatus(tx, existing, 'paused', 'calendar_cancelled')) result.updated++;
+    } else {
+      result.skipped++;
+    }
+    return;
+  }
+
+  let recurrenceRule: string | null = null;
+  if (event.rrule) {
+    try {
+      recurrenceRule = formatRRule(parseRRule(event.rrule));
+    } catch (error: any) {
+      result.warnings.push(`"${event.summary}": ${error.message}; only the first occurrence was imported`);
+    }
+  }
+
+  const fields = {
+    title: event.summary,
+    notes: event.description ?? null,
+    scheduledAt: event.start,
+    scheduledEnd: event.end,
+    recurrenceRule,
+  };
+  const item = existing
+    ? await tx.poolItem.update({ where: { id: existing.id }, data: fields })
+    : await tx.poolItem.create({ data: { ...fields, type: 'event', status: 'active', externalUid: event.uid } });
+  if (existing) result.updated++;
+  else result.created++;
+
+  if (existing && existing.status !== 'active') {
+    // Back in the calendar after a cancellation, or moved to a day still ahead:
+    // active again. A pause or completion of the user's own stays.
+    const last = await tx.poolTransition.findFirst({ where: { poolItemId: existing.id }, orderBy: { createdAt: 'desc' } });
+    const restored =
+      last?.reason === 'calendar_cancelled' ||
+      ((last?.reason === 'event_past' || last?.reason === 'series_ended') && !eventOverReason(item, todayStr()));
+    if (restored) {
+      await poolService.setStatus(tx, existing, 'active', 'calendar_restored');
+    } else {
+      result.warnings.push(`"${event.summary}": ${existing.status} in the Pool, so it was updated but left ${existing.status}`);
+    }
+  }
+
+  if (recurrenceRule) {
+    for (const exdate of event.exdates) {
+      const date = startOfDay(exdate);
+      await tx.poolOccurrence.upsert({
+        where: { poolItemId_date: { poolItemId: item.id, date } },
+        create: { poolItemId: item.id, date, status: 'skipped' },
+        update: { status: 'skipped' },
+      });
+      result.occurrences++;
+    }
+  }
+}
+
+/** A changed instance of a recurring event (same UID plus RECURRENCE-ID) as an occurrence override */
+async function importInstance(tx: Prisma.TransactionClient, instance: ICalEvent, result: ImportResult): Promise<void> {
+  const item = await tx.poolItem.findUnique({ where: { externalUid: instance.uid } });
+  if (!item?.recurrenceRule || !item.scheduledAt) {
+    result.warnings.push(`"${instance.summary}": changed instance of an event that isn't recurring here; skipped`);
+    result.skipped++;
+    return;
+  }
+  const dateStr = toDateStr(instance.recurrenceId!);
+  if (!occursOn(parseRRule(item.recurrenceRule), toDateStr(item.scheduledAt), dateStr)) {
+    result.skipped++;
+    return;
+  }
+  const date = startOfDay(dateStr);
+  const sameDay = toDateStr(instance.start) === dateStr;
+  const fields = {
+    // Moving to another day isn't an override we can hold; treat it as skipped here
+    status: instance.cancelled || !sameDay ? 'skipped' : 'scheduled',
+    scheduledAt: sameDay ? instance.start : null,
+    scheduledEnd: sameDay ? instance.end : null,
+    notes: instance.description ?? null,
+  };
+  await tx.poolOccurrence.upsert({
+    where: { poolItemId_date: { poolItemId: item.id, date } },
+    create: { poolItemId: item.id, date, ...fields },
+    update: fields,
+  });
+  result.occurrences++;
+}
+
+/**
+ * Import VEVENTs as event Pool items. Repeat rules the Pool understands are
+ * kept (EXDATEs and changed instances become occurrence overrides); others
+ * import as their first occurrence with a warning. Cancelled events pause
+ * the matching Pool item; one that comes back (or an ended event moved to a
+ * day still ahead) is active again.
+ *
+ * Each event is saved in its own transaction, so a large calendar doesn't run
+ * into the transaction timeout; events are matched by UID, so importing again
+ * after a failure picks up where it stopped.
+ */
+export async function importICS(text: string): Promise<ImportResult> {
+  const { events, skipped } = parseICS(text);
+  const result: ImportResult = { created: 0, updated: 0, skipped, occurrences: 0, warnings: [] };
+
+  // Series first, so changed instances find the event they belong to
+  for (const event of events.filter((e) => !e.recurrenceId)) {
+    await prisma.$transaction((tx) => importSeries(tx, event, result));
+  }
+  for (const instance of events.filter((e) => e.recurrenceId)) {
+    await prisma.$transaction((tx) => importInstance(tx, instance, result));
+  }
+
+  return result;
+}
+
+type ExportTask = {
+  id: string;
+  title: string;
+  description: string | null;
+  scheduledTime: Date | null;
+  durationMinutes: number | null;
+  status: string;
+  updatedAt: Date;
+  category: { name: string };
+  poolItem: { type: string; scheduledAt: Date | null; scheduledEnd: Date | null } | null;
+};
+
+/** An event's length in ms from its first occurrence (the same on every day of a series), or null */
+function eventLength(poolItem: ExportTask['poolItem']): number | null {
+  if (poolItem?.type !== 'event' || !poolItem.scheduledAt || !poolItem.scheduledEnd) return null;
+  const length = new Date(poolItem.scheduledEnd).getTime() - new Date(poolItem.scheduledAt).getTime();
+  return length > 0 ? length : null;
+}
+
+function toCalendarEvent(task: ExportTask): ICalOutputEvent {
+  const start = new Date(task.scheduledTime!);
+  const isEvent = task.poolItem?.type === 'event';
+  const length = eventLength(task.poolItem) ?? (task.durationMinutes ?? DEFAULT_EXPORT_MINUTES) * 60000;
+  const end = new Date(start.getTime() + length);
+  return {
+    uid: `task-${task.id}@daylaunch`,
+    summary: task.status === 'completed' ? `✓ ${task.title}` : task.title,
+    description: task.description,
+    start,
+    end,
+    status: task.status === 'skipped' ? 'CANCELLED' : 'CONFIRMED',
+    categories: [task.category.name],
+    busy: isEvent,
+    updatedAt: task.updatedAt,
+  };
+}
+
+const exportInclude = {
+  tasks: {
+    where: { scheduledTime: { not: null } },
+    include: { category: true, poolItem: true },
+    orderBy: { scheduledTime: 'asc' as const },
+  },
+};
+
+/** One plan's scheduled tasks as an .ics calendar */
+export async function planToICS(planId: string): Promise<string> {
+  const plan = await prisma.dailyPlan.findUnique({ where: { id: planId }, include: exportInclude });
+  if (!plan) {
+    throw new Error('Plan not found');
+  }
+  return serializeICS(`DayLaunch ${toDateStr(plan.date)}`, plan.tasks.map(toCalendarEvent));
+}
+
+/**
+ * Active plans from `pastDays` ago to `futureDays` ahead as one calendar, for
+ * a calendar client to subscribe to on this machine.
+ */
+export async function feedToICS(pastDays: number, futureDays: number): Promise<string> {
+  const today = todayStr();
+  const plans = await prisma.dailyPlan.findMany({
+    where: {
+      status: 'active',
+      date: { gte: startOfDay(addDays(today, -pastDays)), lt: startOfDay(addDays(today, futureDays + 1)) },
+    },
+    include: exportInclude,
+    orderBy: { date: 'asc' },
+  });
+  return serializeICS('DayLaunch', plans.flatMap((plan) => plan.tasks.map(toCalendarEvent)));
+}
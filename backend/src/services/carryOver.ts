@@ -0,0 +1,153 @@
+/**
+ * Carry-over: what becomes of a day's untouched invitations once it's over.
+ * - Pool tasks and aspirations left pending or skipped go back to the Pool as
+ *   if that day never used them (use count and last_used_at roll back), so
+ *   they can come round again on their own
+ * - The planner's own ideas (no Pool item) are offered to keep as new Pool
+ *   items; the user can keep them or let them go
+ *
+ * An invitation not taken up just wasn't for that day; nothing here is
+ * counted as missed or overdue.
+ */
+
+import { PoolItem } from '@prisma/client';
+import prisma from '../lib/prisma.js';
+import { addDays, dayName, startOfDay, todayStr, toDateStr } from '../lib/dates.js';
+import { PoolService } from './poolService.js';
+
+const poolService = new PoolService();
+
+export interface CarryOverResult {
+  returned: number; // Pool invitations back in the Pool
+  offered: number; // Planner ideas now on offer
+}
+
+/** A planner idea from an earlier day that could be kept in the Pool */
+export interface IdeaOffer {
+  taskId: string;
+  title: string;
+  description: string | null;
+  categoryId: string;
+  categoryName: string;
+  date: string; // YYYY-MM-DD of the plan it was on
+  message: string;
+}
+
+const UNTOUCHED_STATUSES = ['pending', 'skipped'];
+// How far back one run looks, so a backend that was off for a few days catches up
+const LOOKBACK_DAYS = 7;
+// Ideas stay on offer this long
+const OFFER_DAYS = 14;
+
+/** Release the untouched invitations of active plans before today */
+export async function runCarryOver(now: Date = new Date()): Promise<CarryOverResult> {
+  const today = todayStr(now);
+  const result: CarryOverResult = { returned: 0, offered: 0 };
+
+  const tasks = await prisma.task.findMany({
+    where: {
+      status: { in: UNTOUCHED_STATUSES },
+      releasedAt: null,
+      // Events finish on their own (see poolLifecycle)
+      OR: [{ poolItemId: null }, { poolItem: { type: { not: 'event' } } }],
+      dailyPlan: { status: 'active', date: { gte: startOfDay(addDays(today, -LOOKBACK_DAYS)), lt: startOfDay(today) } },
+    },
+  });
+
+  const byPlan = new Map<string, typeof tasks>();
+  for (const task of tasks) {
+    byPlan.set(task.dailyPlanId, [...(byPlan.get(task.dailyPlanId) ?? []), task]);
+  }
+
+  for (const [planId, planTasks] of byPlan) {
+    await prisma.$transaction(async (tx) => {
+      for (const task of planTasks) {
+        await tx.task.update({
+          where: { id: task.id },
+          data: { releasedAt: now, ...(task.poolItemId ? {} : { poolOffer: 'open' }) },
+        });
+        if (task.poolItemId) result.returned++;
+        else result.offered++;
+      }
+
+      // The day only gives back its use if nothing else on it used the item
+      const poolIds = [...new Set(planTasks.map((t) => t.poolItemId).filter((id): id is string => !!id))];
+      const dropped: string[] = [];
+      for (const poolItemId of poolIds) {
+        const stillUsed = await tx.task.count({ where: { dailyPlanId: planId, poolItemId, releasedAt: null } });
+        if (stillUsed === 0) dropped.push(poolItemId);
+      }
+      await poolService.adjustUsage(tx, [], dropped);
+    });
+  }
+
+  if (result.returned > 0 || result.offered > 0) {
+    console.log(`Carry-over: ${result.returned} invitation(s) back in the Pool, ${result.offered} idea(s) to keep or let go`);
+  }
+  return result;
+}
+
+/** Planner ideas from the last couple of weeks that are waiting for a keep-or-let-go */
+export async function findIdeaOffers(now: Date = new Date()): Promise<IdeaOffer[]> {
+  const tasks = await prisma.task.findMany({
+    where: {
+      poolOffer: 'open',
+      dailyPlan: { status: 'active', date: { gte: startOfDay(addDays(todayStr(now), -OFFER_DAYS)) } },
+    },
+    include: { category: true, dailyPlan: true },
+    orderBy: { dailyPlan: { date: 'desc' } },
+  });
+  return tasks.map((task) => ({
+    taskId: task.id,
+    title: task.title,
+    description: task.description,
+    categoryId: task.categoryId,
+    categoryName: task.category.name,
+    date: toDateStr(task.dailyPlan.date),
+    message: `An idea from ${dayName(task.dailyPlan.date)}: keep "${task.title}" in the Pool for another day?`,
+  }));
+}
+
+async function findOpenOffer(taskId: string) {
+  const task = await prisma.task.findUnique({ where: { id: taskId } });
+  if (!task) {
+    throw new Error('Task not found');
+  }
+  if (task.poolOffer !== 'open') {
+    throw new Error('This idea is not on offer');
+  }
+  return task;
+}
+
+/** Keep an idea: it becomes a Pool item (an aspiration unless `type` says task) */
+export async function promoteIdea(
+  taskId: string,
+  options: { type?: 'task' | 'aspiration'; title?: string } = {}
+): Promise<PoolItem> {
+  const task = await findOpenOffer(taskId);
+  const type = options.type ?? 'aspiration';
+  if (type !== 'task' && type !== 'aspiration') {
+    throw new Error('type must be task or aspiration');
+  }
+
+  return prisma.$transaction(async (tx) => {
+    const item = await tx.poolItem.create({
+      data: {
+        type,
+        title: options.title?.trim() || task.title,
+        notes: task.description,
+        categoryId: task.categoryId,
+        status: 'active',
+      },
+      include: { category: true },
+    });
+    await tx.task.update({ where: { id: task.id }, data: { poolOffer: 'promoted' } });
+    return item;
+  });
+}
+
+/** Let an idea go; it stays in that day's history */
+export async function dismissIdea(taskId: string): Promise<void> {
+  const task = await findOpenOffer(taskId);
+  await prisma.task.update({ where: { id: task.id }, data: { poolOffer: 'dismissed' } });
+}
@@ -0,0 +1,217 @@
+/**
+ * Category Preferences: reads Category.timePreferences (JSON) and
+ * Category.frequency (free text) into rules the planner can use, and works
+ * out how recently each area has come up.
+ *
+ * timePreferences accepts any of:
+ *   ["evening"]                                  parts of the day that suit
+ *   { "preferred": "morning" | ["morning", ...] }
+ *   { "windows": [{ "start": "17:00", "end": "21:00" }] }
+ *   { "earliest": "10:00", "latest": "20:00" }
+ *   { "avoid": ["morning"] }                     can be combined with the above
+ *
+ * frequency accepts phrases like "daily", "weekly", "every other day",
+ * "3 times a week", "at most twice a week", "no more than 1 per day";
+ * clauses can be combined with commas ("at least 1 a week, at most 3 a week").
+ */
+
+import { addDays } from '../lib/dates.js';
+
+/** Minutes since the user's midnight */
+export interface TimeWindow {
+  start: number;
+  end: number;
+}
+
+export interface FrequencyRule {
+  count: number;
+  days: number;
+}
+
+export interface CategoryPreferences {
+  windows: TimeWindow[] | null; // null = any time of day
+  avoid: TimeWindow[];
+  maxUses: FrequencyRule | null; // "at most N per period"
+  target: FrequencyRule | null; // "about N per period"; drives neglect
+}
+
+const DAY_PARTS: Record<string, TimeWindow> = {
+  morning: { start: 5 * 60, end: 12 * 60 },
+  afternoon: { start: 12 * 60, end: 17 * 60 },
+  evening: { start: 17 * 60, end: 23 * 60 },
+};
+
+const NUMBER_WORDS: Record<string, number> = {
+  once: 1, twice: 2, thrice: 3, one: 1, two: 2, three: 3, four: 4, five: 5, six: 6, seven: 7,
+};
+const PERIOD_DAYS: Record<string, number> = { day: 1, week: 7, fortnight: 14, month: 30 };
+const SHORTHANDS: Record<string, FrequencyRule> = {
+  daily: { count: 1, days: 1 },
+  'every day': { count: 1, days: 1 },
+  'every other day': { count: 1, days: 2 },
+  weekly: { count: 1, days: 7 },
+  fortnightly: { count: 1, days: 14 },
+  monthly: { count: 1, days: 30 },
+};
+const LIMIT_WORDS = /\b(at most|max(imum)?|no more than|up to|not more than)\b|<=?/;
+const CLAUSE = new RegExp(
+  `(\\d+|${Object.keys(NUMBER_WORDS).join('|')})\\s*(?:x|times?)?\\s*(?:a|an|per|/|every|each)\\s*(${Object.keys(PERIOD_DAYS).join('|')})`
+);
+
+// Without a target, an area counts as neglected after this many days
+const DEFAULT_NEGLECT_DAYS = 7;
+// How far back touches are counted (covers the longest period above)
+export const TOUCH_LOOKBACK_DAYS = 30;
+
+function clock(value: unknown): number | null {
+  if (typeof value !== 'string') return null;
+  const match = value.trim().match(/^(\d{1,2}):(\d{2})$/);
+  return match ? Number(match[1]) * 60 + Number(match[2]) : null;
+}
+
+/** Parts of the day ("evening") or {start, end} objects → windows */
+function toWindows(value: unknown): TimeWindow[] {
+  const items = Array.isArray(value) ? value : value == null ? [] : [value];
+  const windows: TimeWindow[] = [];
+  for (const item of items) {
+    if (typeof item === 'string' && DAY_PARTS[item.trim().toLowerCase()]) {
+      windows.push(DAY_PARTS[item.trim().toLowerCase()]);
+    } else if (item && typeof item === 'object') {
+      const fields = item as Record<string, unknown>;
+      const start = clock(fields.start);
+      const end = clock(fields.end);
+      if (start !== null && end !== null && end > start) windows.push({ start, end });
+    }
+  }
+  return windows;
+}
+
+export function parseTimePreferences(raw: string | null): Pick<CategoryPreferences, 'windows' | 'avoid'> {
+  if (!raw) return { windows: null, avoid: [] };
+  let value: unknown;
+  try {
+    value = JSON.parse(raw);
+  } catch {
+    return { windows: null, avoid: [] };
+  }
+
+  if (Array.isArray(value) || typeof value === 'string') {
+    const windows = toWindows(value);
+    return { windows: windows.length > 0 ? windows : null, avoid: [] };
+  }
+  if (!value || typeof value !== 'object') return { windows: null, avoid: [] };
+
+  const prefs = value as Record<string, unknown>;
+  const windows = [
+    ...toWindows(prefs.preferred ?? prefs.times ?? prefs.parts),
+    ...toWindows(prefs.windows),
+  ];
+  const earliest = clock(prefs.earliest);
+  const latest = clock(prefs.latest);
+  if (windows.length === 0 && (earliest !== null || latest !== null)) {
+    windows.push({ start: earliest ?? 0, end: latest ?? 24 * 60 });
+  }
+  return { windows: windows.length > 0 ? windows : null, avoid: toWindows(prefs.avoid) };
+}
+
+export function parseFrequency(raw: string | null): Pick<CategoryPreferences, 'maxUses' | 'target'> {
+  const result: Pick<CategoryPreferences, 'maxUses' | 'target'> = { maxUses: null, target: null };
+  if (!raw) return result;
+
+  for (const clause of raw.toLowerCase().split(/[,;]|\band\b/)) {
+    const text = clause.trim();
+    if (!text) continue;
+    let rule: FrequencyRule | null = null;
+    const match = text.match(CLAUSE);
+    if (match) {
+      const count = NUMBER_WORDS[match[1]] ?? Number(match[1]);
+      if (count > 0) rule = { count, days: PERIOD_DAYS[match[2]] };
+    } else {
+      const shorthand = Object.keys(SHORTHANDS)
+        .sort((a, b) => b.length - a.length)
+        .find((key) => text.includes(key));
+      if (shorthand) rule = SHORTHANDS[shorthand];
+    }
+    if (!rule) continue;
+    if (LIMIT_WORDS.test(text)) result.maxUses = rule;
+    else result.target = rule;
+  }
+  return result;
+}
+
+export function parseCategoryPreferences(category: {
+  timePreferences: string | null;
+  frequency: string | null;
+}): CategoryPreferences {
+  return { ...parseTimePreferences(category.timePreferences), ...parseFrequency(category.frequency) };
+}
+
+/**
+ * Windows a task in this category may be placed in, with avoided spans cut
+ * out. Undefined when the category has no time preference.
+ */
+export function allowedWindows(prefs: CategoryPreferences): TimeWindow[] | undefined {
+  if (!prefs.windows && prefs.avoid.length === 0) return undefined;
+  let windows = prefs.windows ?? [{ start: 0, end: 24 * 60 }];
+  for (const cut of prefs.avoid) {
+    windows = windows.flatMap((w) => {
+      if (cut.end <= w.start || cut.start >= w.end) return [w];
+      return [
+        { start: w.start, end: cut.start },
+        { start: cut.end, end: w.end },
+      ].filter((part) => part.end > part.start);
+    });
+  }
+  return windows;
+}
+
+/** Touches (YYYY-MM-DD dates) in the `days`-day period ending on the plan day, excluding it */
+export function touchesInPeriod(touches: string[], planDateStr: string, days: number): number {
+  const since = addDays(planDateStr, -(days - 1));
+  return touches.filter((d) => d >= since && d < planDateStr).length;
+}
+
+/** Uses still allowed on the plan day under "at most", or null if unlimited */
+export function remainingUses(prefs: CategoryPreferences, touches: string[], planDateStr: string): number | null {
+  if (!prefs.maxUses) return null;
+  return Math.max(0, prefs.maxUses.count - touchesInPeriod(touches, planDateStr, prefs.maxUses.days));
+}
+
+/**
+ * How overdue an area is: days since it last came up, and whether that's
+ * longer than its target rhythm (or a week, without one).
+ */
+export function neglect(
+  prefs: CategoryPreferences,
+  touches: string[],
+  planDateStr: string
+): { daysSince: number | null; neglected: boolean } {
+  const last = touches.filter((d) => d < planDateStr).sort().pop();
+  const daysSince = last
+    ? Math.round((Date.parse(planDateStr) - Date.parse(last)) / (1000 * 60 * 60 * 24))
+    : null;
+  const expectedGap = prefs.target ? prefs.target.days / prefs.target.count : DEFAULT_NEGLECT_DAYS;
+  return { daysSince, neglected: daysSince === null || daysSince > expectedGap };
+}
+
+function formatWindow(w: TimeWindow): string {
+  const part = Object.entries(DAY_PARTS).find(([, p]) => p.start === w.start && p.end === w.end);
+  if (part) return part[0];
+  const hhmm = (m: number) => `${String(Math.floor(m / 60)).padStart(2, '0')}:${String(m % 60).padStart(2, '0')}`;
+  return `${hhmm(w.start)}–${hhmm(w.end)}`;
+}
+
+function formatRule(rule: FrequencyRule): string {
+  const period = rule.days === 1 ? 'day' : rule.days === 7 ? 'week' : `${rule.days} days`;
+  return `${rule.count} per ${period}`;
+}
+
+/** Plain-language summary for the prompt, e.g. "evening; at most 2 per week" */
+export function describePreferences(prefs: CategoryPreferences): string {
+  const parts: string[] = [];
+  if (prefs.windows) parts.push(`best ${prefs.windows.map(formatWindow).join(' or ')}`);
+  if (prefs.avoid.length > 0) parts.push(`not ${prefs.avoid.map(formatWindow).join(' or ')}`);
+  if (prefs.target) parts.push(`about ${formatRule(prefs.target)}`);
+  if (prefs.maxUses) parts.push(`at most ${formatRule(prefs.maxUses)}`);
+  return parts.join('; ');
+}
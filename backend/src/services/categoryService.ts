@@ -6,8 +6,8 @@ export interface CreateCategoryInput {
   color?: string;
   icon?: string;
   priority?: number;
-  timePreferences?: Record<string, any>;
-  frequency?: string;
+  timePreferences?: Record<string, any>; // Formats: see categoryPreferences.ts
+  frequency?: string; // e.g. "3 times a week", "at most 2 a week"
   enabled?: boolean;
 }
 
@@ -21,6 +21,26 @@ export interface UpdateCategoryInput {
   enabled?: boolean;
 }
 
+/** What still points at a category */
+export interface CategoryReferences {
+  tasks: number;
+  poolItems: number;
+  feedback: number;
+}
+
+/** Thrown when deleting a category that tasks, Pool items or feedback still use */
+export class CategoryInUseError extends Error {
+  constructor(message: string, public references: CategoryReferences) {
+    super(message);
+    this.name = 'CategoryInUseError';
+  }
+}
+
+export interface MergeCategoryResult {
+  target: Category;
+  moved: CategoryReferences;
+}
+
 export class CategoryService {
   async create(data: CreateCategoryInput): Promise<Category> {
     return prisma.category.create({
@@ -36,9 +56,13 @@ export class CategoryService {
     });
   }
 
-  async findAll(enabledOnly: boolean = false): Promise<Category[]> {
+  /** Archived categories are left out unless includeArchived (never with enabledOnly) */
+  async findAll(enabledOnly: boolean = false, includeArchived: boolean = false): Promise<Category[]> {
     return prisma.category.findMany({
-      where: enabledOnly ? { enabled: true } : undefined,
+      where: {
+        ...(enabledOnly ? { enabled: true } : {}),
+        ...(enabledOnly || !includeArchived ? { archivedAt: null } : {}),
+      },
       orderBy: [
         { priority: 'desc' },
         { name: 'asc' },
@@ -70,12 +94,97 @@ export class CategoryService {
     });
   }
 
+  async getReferences(id: string): Promise<CategoryReferences> {
+    const [tasks, poolItems, feedback] = await Promise.all([
+      prisma.task.count({ where: { categoryId: id } }),
+      prisma.poolItem.count({ where: { categoryId: id } }),
+      prisma.dailyFeedback.count({ where: { affectedCategoryId: id } }),
+    ]);
+    return { tasks, poolItems, feedback };
+  }
+
+  /**
+   * Delete a category nothing refers to. Categories with history should be
+   * archived or merged instead; the error lists what still uses it.
+   */
   async delete(id: string): Promise<void> {
+    const category = await this.findById(id);
+    if (!category) {
+      throw new Error('Category not found');
+    }
+    const references = await this.getReferences(id);
+    if (references.tasks + references.poolItems + references.feedback > 0) {
+      throw new CategoryInUseError(
+        `Category "${category.name}" is used by ${references.tasks} task(s), ${references.poolItems} Pool item(s) and feedback on ${references.feedback} day(s); archive or merge it instead`,
+        references
+      );
+    }
     await prisma.category.delete({
       where: { id },
     });
   }
 
+  /** Hide a category from planning and category lists; its tasks and feedback stay */
+  async archive(id: string): Promise<Category> {
+    const category = await this.findById(id);
+    if (!category) {
+      throw new Error('Category not found');
+    }
+    if (category.archivedAt) return category;
+    return prisma.category.update({
+      where: { id },
+      data: { archivedAt: new Date() },
+    });
+  }
+
+  async unarchive(id: string): Promise<Category> {
+    const category = await this.findById(id);
+    if (!category) {
+      throw new Error('Category not found');
+    }
+    return prisma.category.update({
+      where: { id },
+      data: { archivedAt: null },
+    });
+  }
+
+  /**
+   * Move every task, Pool item and feedback entry from one category to
+   * another, then archive the emptied category. It's kept rather than deleted
+   * so initializeDefaultCategories doesn't bring a merged default back.
+   */
+  async merge(sourceId: string, targetId: string): Promise<MergeCategoryResult> {
+    if (sourceId === targetId) {
+      throw new Error('Cannot merge a category into itself');
+    }
+    const [source, target] = await Promise.all([this.findById(sourceId), this.findById(targetId)]);
+    if (!source) {
+      throw new Error('Category to merge not found');
+    }
+    if (!target) {
+      throw new Error('Target category not found');
+    }
+    if (target.archivedAt) {
+      throw new Error(`Target category "${target.name}" is archived`);
+    }
+
+    return prisma.$transaction(async (tx) => {
+      const tasks = await tx.task.updateMany({ where: { categoryId: sourceId }, data: { categoryId: targetId } });
+      const poolItems = await tx.poolItem.updateMany({ where: { categoryId: sourceId }, data: { categoryId: targetId } });
+      const feedback = await tx.dailyFeedback.updateMany({
+        where: { affectedCategoryId: sourceId },
+        data: { affectedCategoryId: targetId },
+      });
+      if (!source.archivedAt) {
+        await tx.category.update({ where: { id: sourceId }, data: { archivedAt: new Date() } });
+      }
+      return {
+        target,
+        moved: { tasks: tasks.count, poolItems: poolItems.count, feedback: feedback.count },
+      };
+    });
+  }
+
   async initializeDefaultCategories(): Promise<void> {
     const defaults = [
       { name: 'Exercise', color: '#10b981', priority: 1 },
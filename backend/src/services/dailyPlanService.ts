@@ -1,5 +1,9 @@
 import prisma from '../lib/prisma.js';
-import { DailyPlan, Task } from '@prisma/client';
+import { addDays, dayRange, startOfDay, todayStr } from '../lib/dates.js';
+import { DailyPlan, Prisma, Task } from '@prisma/client';
+import { PoolService } from './poolService.js';
+
+const poolService = new PoolService();
 
 export interface CreateDailyPlanInput {
   date: Date;
@@ -18,31 +22,53 @@ export interface CreateTaskInput {
   priority?: number;
 }
 
+export type TaskStatus = 'pending' | 'in_progress' | 'completed' | 'skipped';
+
+// Where a task can go from each status (staying put is always fine)
+const STATUS_TRANSITIONS: Record<TaskStatus, TaskStatus[]> = {
+  pending: ['in_progress', 'completed', 'skipped'],
+  in_progress: ['pending', 'completed', 'skipped'],
+  completed: ['pending', 'in_progress'], // Reopen
+  skipped: ['pending', 'in_progress', 'completed'],
+};
+
+// A timer running longer than this was most likely left on; no duration is recorded
+const MAX_TIMED_MINUTES = 600;
+
 export class DailyPlanService {
   async create(data: CreateDailyPlanInput): Promise<DailyPlan> {
+    const existing = await this.findByDate(data.date);
+    if (existing) {
+      throw new Error('A plan already exists for this date');
+    }
+    const revision = await this.nextRevision(data.date);
+
     return prisma.dailyPlan.create({
       data: {
-        date: data.date,
+        date: startOfDay(data.date),
+        revision,
         capacityScore: data.capacityScore,
         mentalStateSummary: data.mentalStateSummary,
       },
     });
   }
 
-  async findByDate(date: Date): Promise<DailyPlan | null> {
-    // Normalize date to start of day for comparison
-    const normalizedDate = new Date(date);
-    normalizedDate.setHours(0, 0, 0, 0);
-    
-    const endOfDay = new Date(normalizedDate);
-    endOfDay.setHours(23, 59, 59, 999);
+  /** Revision number for the next plan saved on this date (1 when there are none) */
+  async nextRevision(date: Date, client: Prisma.TransactionClient = prisma): Promise<number> {
+    const latest = await client.dailyPlan.aggregate({
+      where: { date: dayRange(date) },
+      _max: { revision: true },
+    });
+    return (latest._max.revision ?? 0) + 1;
+  }
 
-    return prisma.dailyPlan.findFirst({
+  /** Pass a transaction client to read inside an open transaction */
+  async findByDate(date: Date, client: Prisma.TransactionClient = prisma): Promise<DailyPlan | null> {
+    // Only the active revision; superseded ones are listed by findRevisions
+    return client.dailyPlan.findFirst({
       where: {
-        date: {
-          gte: normalizedDate,
-          lte: endOfDay,
-        },
+        date: dayRange(date),
+        status: 'active',
       },
       include: {
         tasks: {
@@ -75,48 +101,177 @@ export class DailyPlanService {
     });
   }
 
-  async addTask(data: CreateTaskInput): Promise<Task> {
-    return prisma.task.create({
-      data: {
-        dailyPlanId: data.dailyPlanId,
-        categoryId: data.categoryId,
-        poolItemId: data.poolItemId || null,
-        title: data.title,
-        description: data.description,
-        scheduledTime: data.scheduledTime,
-        durationMinutes: data.durationMinutes,
-        priority: data.priority || 3,
-      },
+  /** All revisions for a date, newest first, with their tasks' statuses */
+  async findRevisions(date: Date): Promise<DailyPlan[]> {
+    return prisma.dailyPlan.findMany({
+      where: { date: dayRange(date) },
       include: {
-        category: true,
-        poolItem: true,
+        tasks: {
+          select: { id: true, title: true, status: true, poolItemId: true },
+        },
+        feedback: { select: { id: true } },
       },
+      orderBy: { revision: 'desc' },
+    });
+  }
+
+  /**
+   * Mark `previousId` superseded by `nextId`. Feedback belongs to the day,
+   * not a revision, so it moves to the new active revision.
+   */
+  async supersede(client: Prisma.TransactionClient, previousId: string, nextId: string): Promise<void> {
+    await client.dailyPlan.update({
+      where: { id: previousId },
+      data: { status: 'superseded', supersededAt: new Date() },
+    });
+    const nextHasFeedback = await client.dailyFeedback.findUnique({ where: { dailyPlanId: nextId } });
+    if (!nextHasFeedback) {
+      await client.dailyFeedback.updateMany({
+        where: { dailyPlanId: previousId },
+        data: { dailyPlanId: nextId },
+      });
+    }
+  }
+
+  /**
+   * Make a superseded revision active again; the current active revision
+   * becomes superseded and Pool usage follows the switch.
+   */
+  async restoreRevision(planId: string): Promise<DailyPlan | null> {
+    await prisma.$transaction(async (tx) => {
+      const target = await tx.dailyPlan.findUnique({ where: { id: planId } });
+      if (!target) {
+        throw new Error('Plan not found');
+      }
+      if (target.status === 'active') {
+        throw new Error('This revision is already active');
+      }
+
+      const current = await this.findByDate(target.date, tx);
+      await tx.dailyPlan.update({
+        where: { id: target.id },
+        data: { status: 'active', supersededAt: null },
+      });
+      if (current) {
+        await this.supersede(tx, current.id, target.id);
+      }
+      await poolService.syncUsage(tx, current?.id ?? null, target.id);
     });
+
+    return this.findById(planId);
   }
 
+  /** A task from the Pool counts as a use of that item (once per active plan) */
+  async addTask(data: CreateTaskInput): Promise<Task> {
+    return prisma.$transaction(async (tx) => {
+      const plan = await tx.dailyPlan.findUnique({ where: { id: data.dailyPlanId } });
+      if (!plan) {
+        throw new Error('Plan not found');
+      }
+      const alreadyOnPlan = data.poolItemId
+        ? await tx.task.count({ where: { dailyPlanId: plan.id, poolItemId: data.poolItemId } })
+        : 0;
+
+      const task = await tx.task.create({
+        data: {
+          dailyPlanId: data.dailyPlanId,
+          categoryId: data.categoryId,
+          poolItemId: data.poolItemId || null,
+          title: data.title,
+          description: data.description,
+          scheduledTime: data.scheduledTime,
+          durationMinutes: data.durationMinutes,
+          priority: data.priority || 3,
+        },
+        include: {
+          category: true,
+          poolItem: true,
+        },
+      });
+
+      if (data.poolItemId && !alreadyOnPlan && plan.status === 'active') {
+        await poolService.adjustUsage(tx, [data.poolItemId], []);
+      }
+      return task;
+    });
+  }
+
+  /**
+   * Move a task to `status`. in_progress starts its timer; completed records
+   * a CompletionHistory row with the time taken (`actualDurationMinutes`, or
+   * the timer's reading). Moving a completed task back out clears completedAt
+   * and drops its completion record, so reopened work isn't counted as done.
+   */
   async updateTaskStatus(
     taskId: string,
-    status: 'pending' | 'in_progress' | 'completed' | 'skipped',
-    notes?: string
+    status: TaskStatus,
+    notes?: string,
+    actualDurationMinutes?: number
   ): Promise<Task> {
-    const updateData: any = {
-      status,
-      notes,
-    };
-
-    if (status === 'completed') {
-      updateData.completedAt = new Date();
+    if (actualDurationMinutes !== undefined && (!Number.isInteger(actualDurationMinutes) || actualDurationMinutes < 0)) {
+      throw new Error('actualDurationMinutes must be a whole number of minutes');
     }
 
-    return prisma.task.update({
-      where: { id: taskId },
-      data: updateData,
+    return prisma.$transaction(async (tx) => {
+      const task = await tx.task.findUnique({ where: { id: taskId } });
+      if (!task) {
+        throw new Error('Task not found');
+      }
+      if (!STATUS_TRANSITIONS[status]) {
+        throw new Error(`Invalid status "${status}" (expected pending, in_progress, completed or skipped)`);
+      }
+      const from = task.status as TaskStatus;
+      if (status !== from && !STATUS_TRANSITIONS[from]?.includes(status)) {
+        throw new Error(`A ${from} task can't be marked ${status}${from === 'completed' ? '; reopen it first' : ''}`);
+      }
+      const now = new Date();
+      const updateData: Prisma.TaskUpdateInput = { status, notes };
+
+      if (status === 'in_progress' && task.status !== 'in_progress') {
+        updateData.startedAt = now;
+      } else if (status === 'pending') {
+        updateData.startedAt = null;
+      }
+
+      if (status === 'completed' && task.status !== 'completed') {
+        updateData.completedAt = now;
+        const timed = task.startedAt ? Math.round((now.getTime() - task.startedAt.getTime()) / 60000) : null;
+        await tx.completionHistory.create({
+          data: {
+            taskId,
+            completedAt: now,
+            actualDurationMinutes: actualDurationMinutes ?? (timed !== null && timed <= MAX_TIMED_MINUTES ? timed : null),
+            notes,
+          },
+        });
+      } else if (status !== 'completed' && task.status === 'completed') {
+        updateData.completedAt = null;
+        await tx.completionHistory.deleteMany({ where: { taskId } });
+      }
+
+      // Taken up after carry-over released it: it counts as used after all
+      const unrelease = task.releasedAt && (status === 'in_progress' || status === 'completed');
+      if (unrelease) {
+        updateData.releasedAt = null;
+        if (task.poolOffer === 'open') updateData.poolOffer = null;
+      }
+
+      const updated = await tx.task.update({
+        where: { id: taskId },
+        data: updateData,
+      });
+      if (unrelease && task.poolItemId) {
+        const othersOnPlan = await tx.task.count({
+          where: { dailyPlanId: task.dailyPlanId, poolItemId: task.poolItemId, releasedAt: null, id: { not: taskId } },
+        });
+        if (othersOnPlan === 0) await poolService.adjustUsage(tx, [task.poolItemId], []);
+      }
+      return updated;
     });
   }
 
   async getTaskHistory(categoryId?: string, days: number = 30): Promise<any[]> {
-    const startDate = new Date();
-    startDate.setDate(startDate.getDate() - days);
+    const startDate = startOfDay(addDays(todayStr(), -days));
 
     return prisma.task.findMany({
       where: {
@@ -124,6 +279,7 @@ export class DailyPlanService {
           date: {
             gte: startDate,
           },
+          status: 'active',
         },
         ...(categoryId ? { categoryId } : {}),
       },
@@ -0,0 +1,90 @@
+/**
+ * Duration Calibration: planned versus actual minutes from CompletionHistory.
+ * Tells the planner how long things in each category really take and whether
+ * plans have been running long, so capacity and durations can follow.
+ */
+
+import prisma from '../lib/prisma.js';
+
+export interface CategoryDurations {
+  categoryId: string;
+  name: string;
+  samples: number;
+  typicalMinutes: number; // Median actual duration
+  ratio: number | null; // Actual ÷ planned, where the plan gave a duration
+}
+
+export interface DurationCalibration {
+  samples: number;
+  ratio: number | null; // Actual ÷ planned over every category
+  byCategory: CategoryDurations[];
+}
+
+export type Pace = 'slower' | 'quicker' | 'as planned';
+
+const LOOKBACK_DAYS = 30;
+// Fewer completions than this say nothing reliable
+const MIN_SAMPLES = 3;
+// Ratios this far from 1 count as running long or short
+const SLOWER_RATIO = 1.25;
+const QUICKER_RATIO = 0.75;
+
+function median(values: number[]): number {
+  const sorted = [...values].sort((a, b) => a - b);
+  const mid = Math.floor(sorted.length / 2);
+  return sorted.length % 2 ? sorted[mid] : Math.round((sorted[mid - 1] + sorted[mid]) / 2);
+}
+
+/** Actual ÷ planned for entries with both, or null with too few of them */
+function ratioOf(entries: { planned: number | null; actual: number }[]): number | null {
+  const paired = entries.filter((e) => e.planned && e.planned > 0);
+  if (paired.length < MIN_SAMPLES) return null;
+  const planned = paired.reduce((sum, e) => sum + e.planned!, 0);
+  const actual = paired.reduce((sum, e) => sum + e.actual, 0);
+  return Math.round((actual / planned) * 100) / 100;
+}
+
+/** Timed completions in the `lookbackDays` before `before`, on active plans */
+export async function calibrateDurations(before: Date, lookbackDays: number = LOOKBACK_DAYS): Promise<DurationCalibration> {
+  const since = new Date(before.getTime() - lookbackDays * 24 * 60 * 60 * 1000);
+  const rows = await prisma.completionHistory.findMany({
+    where: {
+      actualDurationMinutes: { not: null },
+      completedAt: { gte: since, lt: before },
+      task: { dailyPlan: { status: 'active' } },
+    },
+    include: { task: { select: { durationMinutes: true, categoryId: true, category: { select: { name: true } } } } },
+  });
+
+  const entries = rows.map((r) => ({
+    categoryId: r.task.categoryId,
+    name: r.task.category.name,
+    planned: r.task.durationMinutes,
+    actual: r.actualDurationMinutes!,
+  }));
+
+  const byId = new Map<string, typeof entries>();
+  for (const entry of entries) {
+    byId.set(entry.categoryId, [...(byId.get(entry.categoryId) ?? []), entry]);
+  }
+  const byCategory = [...byId.values()]
+    .filter((group) => group.length >= MIN_SAMPLES)
+    .map((group) => ({
+      categoryId: group[0].categoryId,
+      name: group[0].name,
+      samples: group.length,
+      typicalMinutes: median(group.map((e) => e.actual)),
+      ratio: ratioOf(group),
+    }))
+    .sort((a, b) => a.name.localeCompare(b.name));
+
+  return { samples: entries.length, ratio: ratioOf(entries), byCategory };
+}
+
+/** Whether things have been taking longer or shorter than planned; null without enough data */
+export function paceOf(ratio: number | null): Pace | null {
+  if (ratio === null) return null;
+  if (ratio >= SLOWER_RATIO) return 'slower';
+  if (ratio <= QUICKER_RATIO) return 'quicker';
+  return 'as planned';
+}
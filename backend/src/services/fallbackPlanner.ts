@@ -0,0 +1,139 @@
+/**
+ * Fallback Planner: a deterministic, rule-based planner used when the LLM is
+ * unavailable (e.g. the GPU box is asleep). Works from the same PlanningContext
+ * as the LLM and returns the same LLMPlanOutput shape, so the result is saved
+ * like any other plan—just marked as generated offline.
+ *
+ * Same philosophy as the LLM prompt: invitations, not targets. Fewer, gentler
+ * items when capacity is low.
+ */
+
+import { PoolItem } from '@prisma/client';
+import type { PlanningContext } from './planningEngine.js';
+import type { LLMPlanOutput, LLMTask } from './planOutput.js';
+import { neglect } from './categoryPreferences.js';
+
+type Capacity = 'low' | 'medium' | 'high';
+
+const INVITATIONS_BY_CAPACITY: Record<Capacity, number> = { low: 3, medium: 5, high: 7 };
+const DEFAULT_DURATION_BY_CAPACITY: Record<Capacity, number> = { low: 20, medium: 30, high: 45 };
+
+// Score weights
+const NEVER_USED_DAYS = 30; // Treat never-used items like they've waited a month
+const CATEGORY_REPEAT_PENALTY = 0.6;
+const NEGLECTED_CATEGORY_BONUS = 0.3;
+const FORGOTTEN_ITEM_BONUS = 0.3;
+
+/** Gentle built-in ideas when the Pool has nothing for a category */
+const OFFLINE_IDEAS: Record<string, { title: string; description: string; duration: number }> = {
+  Exercise: { title: 'I wonder what a short walk would feel like today', description: 'Any pace, any distance.', duration: 15 },
+  Personal: { title: 'I wonder what would feel restful right now', description: 'A few minutes for whatever sounds good.', duration: 15 },
+  Social: { title: 'I wonder who might enjoy hearing from you', description: 'A quick message counts.', duration: 10 },
+  Learning: { title: 'I wonder what you might read a page of', description: 'Just a page, or just the title.', duration: 15 },
+};
+
+function daysSince(date: Date | null, planDate: Date): number {
+  if (!date) return NEVER_USED_DAYS;
+  return Math.max(0, (planDate.getTime() - new Date(date).getTime()) / (1000 * 60 * 60 * 24));
+}
+
+function baseScore(item: PoolItem, planDate: Date, capacity: Capacity): number {
+  // Items that have waited longer surface first; heavy reuse counts a little against
+  const waiting = Math.min(daysSince(item.lastUsedAt, planDate), NEVER_USED_DAYS) / NEVER_USED_DAYS;
+  const reuse = 1 / (1 + item.useCount * 0.25);
+  // Open-ended aspirations fit better on days with more room
+  const typeFit = item.type === 'aspiration' ? (capacity === 'low' ? 0.6 : capacity === 'high' ? 1.1 : 0.9) : 1;
+  return (waiting * 0.6 + reuse * 0.4) * typeFit;
+}
+
+/**
+ * Greedy pick by score, lowering an item's score for each already-picked
+ * item in the same category so the day spreads across areas.
+ * Ties break on title, then id, so the same inputs give the same plan.
+ */
+function pickItems(
+  items: PoolItem[],
+  count: number,
+  planDate: Date,
+  capacity: Capacity,
+  bonus: (item: PoolItem) => number
+): PoolItem[] {
+  const remaining = items.map((item) => ({ item, score: baseScore(item, planDate, capacity) + bonus(item) }));
+  const picked: PoolItem[] = [];
+  const perCategory = new Map<string, number>();
+
+  while (picked.length < count && remaining.length > 0) {
+    remaining.sort((a, b) => {
+      const penaltyA = (perCategory.get(a.item.categoryId ?? '') ?? 0) * CATEGORY_REPEAT_PENALTY;
+      const penaltyB = (perCategory.get(b.item.categoryId ?? '') ?? 0) * CATEGORY_REPEAT_PENALTY;
+      return (
+        b.score - penaltyB - (a.score - penaltyA) ||
+        a.item.title.localeCompare(b.item.title) ||
+        a.item.id.localeCompare(b.item.id)
+      );
+    });
+    const next = remaining.shift()!.item;
+    picked.push(next);
+    const key = next.categoryId ?? '';
+    perCategory.set(key, (perCategory.get(key) ?? 0) + 1);
+  }
+  return picked;
+}
+
+export function buildOfflinePlan(ctx: PlanningContext, planDate: Date): LLMPlanOutput {
+  const capacity: Capacity = ['low', 'medium', 'high'].includes(ctx.capacityScore)
+    ? (ctx.capacityScore as Capacity)
+    : 'medium';
+  const target = INVITATIONS_BY_CAPACITY[capacity];
+  const defaultDuration = DEFAULT_DURATION_BY_CAPACITY[capacity];
+  const categoryName = new Map(ctx.categories.map((c) => [c.id, c.name]));
+  // How long tasks in each area have actually taken lately
+  const typicalMinutes = new Map(ctx.durations.byCategory.map((c) => [c.categoryId, c.typicalMinutes]));
+  const fallbackCategory = ctx.categories.find((c) => c.name === 'Personal') ?? ctx.categories[0];
+  // Areas that haven't come up for longer than their usual rhythm get a nudge
+  const neglected = new Set(
+    ctx.categories.filter((c) => neglect(c.preferences, c.recentTouches, ctx.date).neglected).map((c) => c.id)
+  );
+
+  const picked = pickItems(
+    [...ctx.poolItems.tasks, ...ctx.poolItems.aspirations].filter(
+      (item) => !item.categoryId || categoryName.has(item.categoryId)
+    ),
+    target,
+    planDate,
+    capacity,
+    (item) =>
+      (item.categoryId && neglected.has(item.categoryId) ? NEGLECTED_CATEGORY_BONUS : 0) +
+      (ctx.staleness[item.id]?.forgotten ? FORGOTTEN_ITEM_BONUS : 0)
+  );
+
+  // No times here: the time-slot scheduler places these around the day's events
+  const drafts: Omit<LLMTask, 'time' | 'priority'>[] = picked.map((item) => ({
+    category: (item.categoryId && categoryName.get(item.categoryId)) || fallbackCategory?.name || '',
+    title: item.title,
+    description: item.notes ?? undefined,
+    duration_minutes:
+      item.type === 'aspiration'
+        ? Math.min(defaultDuration, 20)
+        : (item.categoryId && typicalMinutes.get(item.categoryId)) || defaultDuration,
+    pool_item_id: item.id,
+    is_i_wonder: false,
+  }));
+
+  // Top up with at most one built-in idea per untouched category (0–2 total)
+  const usedCategories = new Set(drafts.map((d) => d.category));
+  for (const c of ctx.categories) {
+    if (drafts.length >= target || drafts.length - picked.length >= 2) break;
+    const idea = OFFLINE_IDEAS[c.name];
+    if (!idea || usedCategories.has(c.name)) continue;
+    drafts.push({ category: c.name, title: idea.title, description: idea.description, duration_minutes: idea.duration, is_i_wonder: true });
+    usedCategories.add(c.name);
+  }
+
+  return {
+    capacity_notes: `Made offline without the language model, sized for ${capacity} capacity.`,
+    tasks: drafts
+      .map((d, index) => ({ ...d, priority: Math.min(5, index + 1) }))
+      .filter((t) => t.category),
+  };
+}
@@ -0,0 +1,197 @@
+/**
+ * Feedback Analyzer: uses the local LLM to turn end-of-day free text
+ * (elaboration + activity log) into structured insights and a sentiment label.
+ * Runs in the background after feedback is saved; raw text is never modified.
+ */
+
+import { generate } from '../lib/llm.js';
+import prisma from '../lib/prisma.js';
+import { DailyFeedback } from '@prisma/client';
+
+export type FeedbackSentiment = 'positive' | 'neutral' | 'mixed' | 'negative';
+
+const SENTIMENTS: FeedbackSentiment[] = ['positive', 'neutral', 'mixed', 'negative'];
+const INSIGHT_KINDS: FeedbackInsight['kind'][] = ['worked', 'did_not_work', 'observation'];
+
+/** One actionable observation, e.g. "exercise too early" */
+export interface FeedbackInsight {
+  insight: string;
+  kind: 'worked' | 'did_not_work' | 'observation';
+  category?: string; // Category name as referenced by the user
+  categoryId?: string | null;
+}
+
+/** An insight as the LLM gave it, before its category is matched */
+interface RawInsight {
+  insight: string;
+  kind: FeedbackInsight['kind'];
+  category: string | null;
+}
+
+/** Shape stored (as JSON) in DailyFeedback.extractedInsights */
+export interface ExtractedInsights {
+  insights: FeedbackInsight[];
+  extractedAt: string;
+}
+
+function buildPrompt(feedback: DailyFeedback, categoryNames: string[]): string {
+  return `You read someone's end-of-day reflection about their daily plan and pull out short, concrete insights the planner can learn from.
+
+## Rating
+${feedback.skipped ? 'skipped' : feedback.overallRating ?? 'none'}
+
+## What they said about the plan
+${feedback.textElaboration || '(nothing)'}
+
+## What they actually did (activity log)
+${feedback.activityLog || '(nothing)'}
+
+## Known categories
+${categoryNames.join(', ')}
+
+## Your task
+List 0–5 insights. Each is a short phrase (e.g. "exercise too early", "work tasks too vague", "evening walk felt good").
+- kind: "worked", "did_not_work", or "observation"
+- category: one of the known categories if the insight is about one, else null
+Also label the overall sentiment: positive, neutral, mixed, or negative.
+Do not judge or add advice. Only extract what they said.
+
+Respond with a single JSON object (no other text):
+\`\`\`json
+{
+  "insights": [{ "insight": "exercise too early", "kind": "did_not_work", "category": "Exercise" }],
+  "sentiment": "mixed"
+}
+\`\`\`
+`;
+}
+
+function parseResponse(raw: string): { insights: RawInsight[]; sentiment?: string } | null {
+  const jsonMatch = raw.match(/```(?:json)?\s*([\s\S]*?)```/);
+  const jsonStr = jsonMatch ? jsonMatch[1].trim() : raw.trim();
+  let parsed: unknown;
+  try {
+    parsed = JSON.parse(jsonStr);
+  } catch {
+    return null;
+  }
+  if (!parsed || typeof parsed !== 'object') return null;
+  const { insights, sentiment } = parsed as Record<string, unknown>;
+  if (!Array.isArray(insights)) return null;
+
+  // Entries without insight text are dropped
+  const entries: RawInsight[] = [];
+  for (const item of insights as unknown[]) {
+    if (!item || typeof item !== 'object') continue;
+    const entry = item as Record<string, unknown>;
+    if (typeof entry.insight !== 'string' || !entry.insight.trim()) continue;
+    entries.push({
+      insight: entry.insight.trim(),
+      kind: INSIGHT_KINDS.includes(entry.kind as FeedbackInsight['kind']) ? (entry.kind as FeedbackInsight['kind']) : 'observation',
+      category: typeof entry.category === 'string' ? entry.category : null,
+    });
+  }
+  return { insights: entries, sentiment: typeof sentiment === 'string' ? sentiment : undefined };
+}
+
+/**
+ * Read structured insights back from DailyFeedback.extractedInsights.
+ * Returns [] for rows that haven't been analyzed yet.
+ */
+export function parseStoredInsights(json: string | null): FeedbackInsight[] {
+  if (!json) return [];
+  try {
+    const data = JSON.parse(json) as ExtractedInsights;
+    return Array.isArray(data.insights) ? data.insights : [];
+  } catch {
+    return [];
+  }
+}
+
+/**
+ * Extract insights + sentiment for one feedback row and store them.
+ * Rows without any free text are left untouched.
+ */
+export async function extractFeedbackInsights(feedbackId: string): Promise<DailyFeedback | null> {
+  const feedback = await prisma.dailyFeedback.findUnique({ where: { id: feedbackId } });
+  if (!feedback) throw new Error('Feedback not found');
+  if (!feedback.textElaboration && !feedback.activityLog) return feedback;
+
+  const categories = await prisma.category.findMany();
+  const categoryByName = new Map(categories.map((c) => [c.name.toLowerCase(), c]));
+
+  const response = await generate({
+    prompt: buildPrompt(feedback, categories.map((c) => c.name)),
+    temperature: 0.2,
+    maxTokens: 1024,
+  });
+
+  const parsed = parseResponse(response);
+  if (!parsed) {
+    throw new Error('LLM did not return valid insights. Raw response: ' + response.slice(0, 500));
+  }
+
+  const insights: FeedbackInsight[] = parsed.insights.slice(0, 5).map((i) => {
+    const category = i.category ? categoryByName.get(i.category.toLowerCase().trim()) : undefined;
+    return {
+      insight: i.insight,
+      kind: i.kind,
+      category: category?.name,
+      categoryId: category?.id ?? null,
+    };
+  });
+
+  const sentiment = SENTIMENTS.includes(parsed.sentiment as FeedbackSentiment)
+    ? (parsed.sentiment as FeedbackSentiment)
+    : 'neutral';
+
+  const stored: ExtractedInsights = { insights, extractedAt: new Date().toISOString() };
+
+  return prisma.dailyFeedback.update({
+    where: { id: feedbackId },
+    data: {
+      extractedInsights: JSON.stringify(stored),
+      sentiment,
+    },
+    include: {
+      affectedCategory: true,
+    },
+  });
+}
+
+/**
+ * Fire-and-forget extraction after feedback is saved. Failures (e.g. the LLM
+ * server being offline) are logged; the row stays pending and is picked up later.
+ */
+export function queueInsightExtraction(feedbackId: string): void {
+  extractFeedbackInsights(feedbackId).catch((error) => {
+    console.error(`Insight extraction failed for feedback ${feedbackId}:`, error.message);
+  });
+}
+
+/**
+ * Analyze feedback rows that have free text but no insights yet
+ * (including rows written by the MCP save_daily_feedback tool).
+ * Returns how many rows were analyzed.
+ */
+export async function extractPendingInsights(limit: number = 20): Promise<number> {
+  const pending = await prisma.dailyFeedback.findMany({
+    where: {
+      extractedInsights: null,
+      OR: [{ textElaboration: { not: null } }, { activityLog: { not: null } }],
+    },
+    orderBy: { date: 'desc' },
+    take: limit,
+  });
+
+  let analyzed = 0;
+  for (const feedback of pending) {
+    try {
+      await extractFeedbackInsights(feedback.id);
+      analyzed++;
+    } catch (error: any) {
+      console.error(`Insight extraction failed for feedback ${feedback.id}:`, error.message);
+    }
+  }
+  return analyzed;
+}
@@ -0,0 +1,145 @@
+import prisma from '../lib/prisma.js';
+import { addDays, dayRange, startOfDay, todayStr } from '../lib/dates.js';
+import { DailyFeedback } from '@prisma/client';
+
+export type FeedbackRating = 'about_right' | 'too_much' | 'one_area';
+
+const RATINGS: FeedbackRating[] = ['about_right', 'too_much', 'one_area'];
+
+export interface SaveFeedbackInput {
+  overallRating?: FeedbackRating;
+  affectedCategoryId?: string;
+  textElaboration?: string;
+  activityLog?: string;
+  skipped?: boolean;
+}
+
+export class FeedbackService {
+  /**
+   * Create or update the end-of-day feedback for a plan (one per plan).
+   * "Skip for today" is stored as skipped: true with no rating.
+   */
+  async upsert(dailyPlanId: string, data: SaveFeedbackInput): Promise<DailyFeedback> {
+    const plan = await prisma.dailyPlan.findUnique({ where: { id: dailyPlanId } });
+    if (!plan) throw new Error('Daily plan not found');
+    if (plan.status !== 'active') throw new Error('This plan was superseded; leave feedback on the active revision');
+
+    const skipped = data.skipped === true;
+    if (!skipped) {
+      if (!data.overallRating) {
+        throw new Error('overallRating is required unless skipped is true');
+      }
+      if (!RATINGS.includes(data.overallRating)) {
+        throw new Error(`overallRating must be one of: ${RATINGS.join(', ')}`);
+      }
+      if (data.overallRating === 'one_area' && !data.affectedCategoryId) {
+        throw new Error('affectedCategoryId is required when overallRating is one_area');
+      }
+    }
+
+    // Only "one area" points at a category; drop stray values for other ratings
+    const affectedCategoryId =
+      !skipped && data.overallRating === 'one_area' ? data.affectedCategoryId! : null;
+    if (affectedCategoryId) {
+      const category = await prisma.category.findUnique({ where: { id: affectedCategoryId } });
+      if (!category) throw new Error('Affected category not found');
+    }
+
+    const textChanged = data.textElaboration !== undefined || data.activityLog !== undefined;
+    const fields = {
+      overallRating: skipped ? null : data.overallRating!,
+      affectedCategoryId,
+      textElaboration: data.textElaboration,
+      activityLog: data.activityLog,
+      skipped,
+      // New text means old insights are stale; the analyzer fills these in again
+      ...(textChanged ? { extractedInsights: null, sentiment: null } : {}),
+    };
+
+    return prisma.dailyFeedback.upsert({
+      where: { dailyPlanId },
+      create: {
+        dailyPlanId,
+        date: plan.date,
+        ...fields,
+      },
+      update: fields,
+      include: {
+        affectedCategory: true,
+      },
+    });
+  }
+
+  /**
+   * Save the activity log on its own (separate affordance from the quick rating).
+   * Creates a feedback row without a rating if none exists yet.
+   */
+  async saveActivityLog(dailyPlanId: string, activityLog: string): Promise<DailyFeedback> {
+    const plan = await prisma.dailyPlan.findUnique({ where: { id: dailyPlanId } });
+    if (!plan) throw new Error('Daily plan not found');
+    if (plan.status !== 'active') throw new Error('This plan was superseded; leave feedback on the active revision');
+
+    return prisma.dailyFeedback.upsert({
+      where: { dailyPlanId },
+      create: {
+        dailyPlanId,
+        date: plan.date,
+        activityLog,
+      },
+      update: { activityLog, extractedInsights: null, sentiment: null },
+      include: {
+        affectedCategory: true,
+      },
+    });
+  }
+
+  async findByPlanId(dailyPlanId: string): Promise<DailyFeedback | null> {
+    return prisma.dailyFeedback.findUnique({
+      where: { dailyPlanId },
+      include: {
+        affectedCategory: true,
+      },
+    });
+  }
+
+  async findByDate(date: Date): Promise<DailyFeedback | null> {
+    return prisma.dailyFeedback.findFirst({
+      where: {
+        date: dayRange(date),
+      },
+      include: {
+        affectedCategory: true,
+      },
+    });
+  }
+
+  /**
+   * Feedback history, newest first. Raw text is always returned in full.
+   */
+  async getHistory(days: number = 30, limit?: number): Promise<DailyFeedback[]> {
+    const startDate = startOfDay(addDays(todayStr(), -days));
+
+    return prisma.dailyFeedback.findMany({
+      where: {
+        date: {
+          gte: startDate,
+        },
+      },
+      include: {
+        affectedCategory: true,
+      },
+      orderBy: {
+        date: 'desc',
+      },
+      take: limit,
+    });
+  }
+
+  /** Whether there was feedback to delete */
+  async delete(dailyPlanId: string): Promise<boolean> {
+    const { count } = await prisma.dailyFeedback.deleteMany({
+      where: { dailyPlanId },
+    });
+    return count > 0;
+  }
+}
@@ -0,0 +1,60 @@
+/**
+ * Generation Log: records every LLM attempt made while generating a plan
+ * (first try + repair round-trips) so failed or odd plans can be diagnosed.
+ */
+
+import prisma from '../lib/prisma.js';
+import { dayRange } from '../lib/dates.js';
+import { GenerationAttempt, Prisma } from '@prisma/client';
+
+/** One LLM round-trip, held in memory until the run finishes */
+export interface AttemptRecord {
+  attempt: number;
+  provider: string;
+  rawResponse: string;
+  errors: string[];
+  success: boolean;
+  durationMs: number;
+}
+
+/** Raw responses are kept for diagnosis but capped so the log stays small */
+const MAX_RAW_RESPONSE_LENGTH = 20000;
+
+export async function saveAttempts(
+  client: Prisma.TransactionClient,
+  run: { runId: string; planDate: Date; dailyPlanId?: string },
+  attempts: AttemptRecord[]
+): Promise<void> {
+  for (const a of attempts) {
+    await client.generationAttempt.create({
+      data: {
+        runId: run.runId,
+        planDate: run.planDate,
+        dailyPlanId: run.dailyPlanId ?? null,
+        attempt: a.attempt,
+        provider: a.provider,
+        rawResponse: a.rawResponse.slice(0, MAX_RAW_RESPONSE_LENGTH),
+        errors: a.errors.length > 0 ? JSON.stringify(a.errors) : null,
+        success: a.success,
+        durationMs: a.durationMs,
+      },
+    });
+  }
+}
+
+export async function findGenerationAttempts(filters?: {
+  planDate?: Date;
+  dailyPlanId?: string;
+  limit?: number;
+}): Promise<GenerationAttempt[]> {
+  const dateRange = filters?.planDate ? dayRange(filters.planDate) : undefined;
+
+  return prisma.generationAttempt.findMany({
+    where: {
+      ...(dateRange ? { planDate: dateRange } : {}),
+      ...(filters?.dailyPlanId ? { dailyPlanId: filters.dailyPlanId } : {}),
+    },
+    orderBy: [{ createdAt: 'desc' }, { attempt: 'desc' }],
+    take: filters?.limit ?? 50,
+  });
+}
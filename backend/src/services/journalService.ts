@@ -1,4 +1,6 @@
 import prisma from '../lib/prisma.js';
+import { embed } from '../lib/llm.js';
+import { addDays, startOfDay, todayStr } from '../lib/dates.js';
 import { JournalEntry } from '@prisma/client';
 
 export interface CreateJournalEntryInput {
@@ -16,9 +18,42 @@ export interface UpdateJournalEntryInput {
   sleepQuality?: number;
 }
 
+export interface JournalSearchResult {
+  entry: Omit<JournalEntry, 'embedding'>;
+  similarity: number;
+}
+
+function cosineSimilarity(a: number[], b: number[]): number {
+  if (a.length !== b.length || a.length === 0) return 0;
+  let dot = 0;
+  let normA = 0;
+  let normB = 0;
+  for (let i = 0; i < a.length; i++) {
+    dot += a[i] * b[i];
+    normA += a[i] * a[i];
+    normB += b[i] * b[i];
+  }
+  return normA && normB ? dot / (Math.sqrt(normA) * Math.sqrt(normB)) : 0;
+}
+
+function parseEmbedding(json: string | null): number[] | null {
+  if (!json) return null;
+  try {
+    const vector = JSON.parse(json);
+    return Array.isArray(vector) ? vector : null;
+  } catch {
+    return null;
+  }
+}
+
+/** An entry as sent to clients: the vector is internal */
+export function withoutEmbedding({ embedding: _embedding, ...entry }: JournalEntry): Omit<JournalEntry, 'embedding'> {
+  return entry;
+}
+
 export class JournalService {
   async create(data: CreateJournalEntryInput): Promise<JournalEntry> {
-    return prisma.journalEntry.create({
+    const entry = await prisma.journalEntry.create({
       data: {
         content: data.content,
         mood: data.mood,
@@ -27,6 +62,9 @@ export class JournalService {
         timestamp: data.timestamp || new Date(),
       },
     });
+    // Embedded in the background; an entry the LLM server misses gets backfilled
+    void this.embedEntry(entry);
+    return entry;
   }
 
   async findById(id: string): Promise<JournalEntry | null> {
@@ -51,10 +89,13 @@ export class JournalService {
   }
 
   async update(id: string, data: UpdateJournalEntryInput): Promise<JournalEntry> {
-    return prisma.journalEntry.update({
+    const entry = await prisma.journalEntry.update({
       where: { id },
-      data,
+      // Content changed: drop the old vector so a failed re-embed gets backfilled
+      data: data.content !== undefined ? { ...data, embedding: null } : data,
     });
+    if (data.content !== undefined) void this.embedEntry(entry);
+    return entry;
   }
 
   async delete(id: string): Promise<void> {
@@ -64,9 +105,90 @@ export class JournalService {
   }
 
   async getRecent(days: number = 7): Promise<JournalEntry[]> {
-    const startDate = new Date();
-    startDate.setDate(startDate.getDate() - days);
-    
+    const startDate = startOfDay(addDays(todayStr(), -days));
+
     return this.findByDateRange(startDate, new Date());
   }
+
+  /**
+   * Compute and store the embedding for one entry.
+   * Returns null (entry left unembedded for the backfill job) if the LLM server is unavailable.
+   */
+  async embedEntry(entry: JournalEntry): Promise<JournalEntry | null> {
+    try {
+      const vector = await embed(entry.content);
+      return await prisma.journalEntry.update({
+        where: { id: entry.id },
+        data: { embedding: JSON.stringify(vector) },
+      });
+    } catch (error: any) {
+      console.error(`Embedding failed for journal entry ${entry.id}:`, error.message);
+      return null;
+    }
+  }
+
+  /**
+   * Embed entries that don't have a vector yet. Stops at the first failure
+   * (usually the LLM server being offline) and returns how many were embedded.
+   */
+  async backfillEmbeddings(limit: number = 50): Promise<number> {
+    const pending = await prisma.journalEntry.findMany({
+      where: { embedding: null },
+      orderBy: { timestamp: 'desc' },
+      take: limit,
+    });
+
+    let embedded = 0;
+    for (const entry of pending) {
+      if (!(await this.embedEntry(entry))) break;
+      embedded++;
+    }
+    return embedded;
+  }
+
+  /**
+   * Semantic search: rank embedded entries by cosine similarity to the query.
+   */
+  async search(
+    query: string,
+    options: { limit?: number; before?: Date; minSimilarity?: number; excludeIds?: string[] } = {}
+  ): Promise<JournalSearchResult[]> {
+    const queryVector = await embed(query);
+    return this.rankBySimilarity(queryVector, options);
+  }
+
+  /**
+   * Past entries that resemble the given entry (reuses its stored vector when present).
+   */
+  async findSimilar(
+    entry: JournalEntry,
+    options: { limit?: number; before?: Date; minSimilarity?: number } = {}
+  ): Promise<JournalSearchResult[]> {
+    const vector = parseEmbedding(entry.embedding) ?? (await embed(entry.content));
+    return this.rankBySimilarity(vector, { ...options, excludeIds: [entry.id] });
+  }
+
+  private async rankBySimilarity(
+    vector: number[],
+    options: { limit?: number; before?: Date; minSimilarity?: number; excludeIds?: string[] }
+  ): Promise<JournalSearchResult[]> {
+    const { limit = 10, before, minSimilarity = 0, excludeIds = [] } = options;
+
+    const candidates = await prisma.journalEntry.findMany({
+      where: {
+        embedding: { not: null },
+        ...(before ? { timestamp: { lt: before } } : {}),
+        ...(excludeIds.length ? { id: { notIn: excludeIds } } : {}),
+      },
+    });
+
+    return candidates
+      .map((entry) => ({
+        entry: withoutEmbedding(entry),
+        similarity: cosineSimilarity(vector, parseEmbedding(entry.embedding) ?? []),
+      }))
+      .filter((r) => r.similarity >= minSimilarity)
+      .sort((a, b) => b.similarity - a.similarity)
+      .slice(0, limit);
+  }
 }
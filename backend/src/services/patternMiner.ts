@@ -0,0 +1,373 @@
+/**
+ * Pattern Miner: looks over Task, DailyFeedback and JournalEntry history and
+ * keeps PatternInsight rows up to date (day-of-week, category preference,
+ * time-of-day, capacity trend). Purely statistical, no LLM involved.
+ *
+ * Patterns describe what tends to feel easier or harder—never "success" or
+ * "failure". Each pattern has a stable key so re-runs update the same row;
+ * patterns that stop holding are deactivated, not deleted.
+ */
+
+import prisma from '../lib/prisma.js';
+import { addDays, dayOfWeek, minutesOfDay, startOfDay, todayStr, toDateStr } from '../lib/dates.js';
+import { PatternInsight } from '@prisma/client';
+
+export type PatternType = 'day_of_week' | 'category_preference' | 'time_of_day' | 'capacity_trend';
+
+/** Structured payload stored (as JSON) in PatternInsight.patternData */
+export interface PatternData {
+  key: string;
+  description: string; // Plain-language summary, e.g. "Mondays tend to feel harder"
+  [field: string]: unknown;
+}
+
+interface DetectedPattern {
+  type: PatternType;
+  confidence: number;
+  data: PatternData;
+}
+
+export interface MiningResult {
+  created: number;
+  updated: number;
+  deactivated: number;
+  active: number;
+}
+
+const LOOKBACK_DAYS = 60;
+const TREND_WINDOW_DAYS = 14;
+const DAY_NAMES = ['Sunday', 'Monday', 'Tuesday', 'Wednesday', 'Thursday', 'Friday', 'Saturday'];
+
+// Minimum evidence before we call something a pattern
+const MIN_DAYS_PER_WEEKDAY = 3;
+const MIN_TASKS_PER_CATEGORY = 5;
+const MIN_TASKS_PER_TIME_BUCKET = 3;
+
+interface TaskRow {
+  status: string;
+  scheduledTime: Date | null;
+  categoryId: string;
+  category: { name: string };
+  dailyPlan: { date: Date };
+}
+
+function tryRate(tasks: { status: string }[]): number {
+  return tasks.length > 0 ? tasks.filter((t) => t.status === 'completed').length / tasks.length : 0;
+}
+
+function average(values: number[]): number | null {
+  return values.length > 0 ? values.reduce((a, b) => a + b, 0) / values.length : null;
+}
+
+/** Scale an effect size by how much evidence backs it (0–1) */
+function confidenceFor(effect: number, fullEffect: number, samples: number, fullSamples: number): number {
+  const strength = Math.min(1, Math.abs(effect) / fullEffect);
+  const support = Math.min(1, samples / fullSamples);
+  return Math.round(strength * support * 100) / 100;
+}
+
+function timeBucket(d: Date): 'morning' | 'afternoon' | 'evening' {
+  const hour = Math.floor(minutesOfDay(d) / 60);
+  if (hour < 12) return 'morning';
+  if (hour < 17) return 'afternoon';
+  return 'evening';
+}
+
+function groupBy<T>(items: T[], keyOf: (item: T) => string): Map<string, T[]> {
+  const groups = new Map<string, T[]>();
+  for (const item of items) {
+    const key = keyOf(item);
+    const group = groups.get(key);
+    if (group) group.push(item);
+    else groups.set(key, [item]);
+  }
+  return groups;
+}
+
+function detectDayOfWeek(
+  tasks: TaskRow[],
+  feedback: { date: Date; overallRating: string | null }[],
+  entries: { timestamp: Date; energyLevel: number | null }[]
+): DetectedPattern[] {
+  const overall = tryRate(tasks);
+  const patterns: DetectedPattern[] = [];
+
+  const tasksByDay = groupBy(tasks, (t) => DAY_NAMES[dayOfWeek(t.dailyPlan.date)]);
+  for (const [day, dayTasks] of tasksByDay) {
+    const planDays = new Set(dayTasks.map((t) => toDateStr(t.dailyPlan.date))).size;
+    if (planDays < MIN_DAYS_PER_WEEKDAY) continue;
+
+    const dayFeedback = feedback.filter((f) => DAY_NAMES[dayOfWeek(f.date)] === day);
+    const tooMuchRate =
+      dayFeedback.length > 0 ? dayFeedback.filter((f) => f.overallRating === 'too_much').length / dayFeedback.length : 0;
+    const avgEnergy = average(
+      entries.filter((e) => e.energyLevel != null && DAY_NAMES[dayOfWeek(e.timestamp)] === day).map((e) => e.energyLevel!)
+    );
+
+    // "Harder" mixes fewer invitations tried with more "too much" ratings
+    const effect = tryRate(dayTasks) - overall - tooMuchRate * 0.5;
+    if (Math.abs(effect) < 0.15) continue;
+
+    const direction = effect < 0 ? 'harder' : 'easier';
+    patterns.push({
+      type: 'day_of_week',
+      confidence: confidenceFor(effect, 0.4, planDays, 8),
+      data: {
+        key: `day_of_week:${day}`,
+        description: `${day}s tend to feel ${direction}`,
+        dayOfWeek: day,
+        direction,
+        tryRate: Math.round(tryRate(dayTasks) * 100) / 100,
+        overallTryRate: Math.round(overall * 100) / 100,
+        tooMuchRate: Math.round(tooMuchRate * 100) / 100,
+        averageEnergy: avgEnergy != null ? Math.round(avgEnergy * 10) / 10 : null,
+        days: planDays,
+      },
+    });
+  }
+  return patterns;
+}
+
+function detectCategoryPreference(
+  tasks: TaskRow[],
+  feedback: { affectedCategoryId: string | null; overallRating: string | null }[]
+): DetectedPattern[] {
+  const overall = tryRate(tasks);
+  const patterns: DetectedPattern[] = [];
+
+  for (const [categoryId, catTasks] of groupBy(tasks, (t) => t.categoryId)) {
+    const name = catTasks[0].category.name;
+    const flagged = feedback.filter((f) => f.overallRating === 'one_area' && f.affectedCategoryId === categoryId).length;
+
+    if (catTasks.length >= MIN_TASKS_PER_CATEGORY) {
+      const effect = tryRate(catTasks) - overall;
+      if (Math.abs(effect) >= 0.2) {
+        const direction = effect > 0 ? 'drawn_to' : 'less_drawn_to';
+        patterns.push({
+          type: 'category_preference',
+          confidence: confidenceFor(effect, 0.4, catTasks.length, 15),
+          data: {
+            key: `category_preference:${categoryId}:engagement`,
+            description:
+              direction === 'drawn_to'
+                ? `${name} invitations are often picked up`
+                : `${name} invitations are often left for another day`,
+            categoryId,
+            category: name,
+            direction,
+            tryRate: Math.round(tryRate(catTasks) * 100) / 100,
+            overallTryRate: Math.round(overall * 100) / 100,
+            tasks: catTasks.length,
+          },
+        });
+      }
+    }
+
+    if (flagged >= 2) {
+      patterns.push({
+        type: 'category_preference',
+        confidence: confidenceFor(flagged, 4, feedback.length, 10),
+        data: {
+          key: `category_preference:${categoryId}:flagged`,
+          description: `${name} is often the one area that felt off`,
+          categoryId,
+          category: name,
+          direction: 'often_flagged',
+          flaggedDays: flagged,
+          feedbackDays: feedback.length,
+        },
+      });
+    }
+  }
+  return patterns;
+}
+
+function detectTimeOfDay(tasks: TaskRow[]): DetectedPattern[] {
+  const patterns: DetectedPattern[] = [];
+  const timed = tasks.filter((t) => t.scheduledTime != null);
+
+  for (const [categoryId, catTasks] of groupBy(timed, (t) => t.categoryId)) {
+    const name = catTasks[0].category.name;
+    const buckets = [...groupBy(catTasks, (t) => timeBucket(t.scheduledTime!))]
+      .filter(([, bucketTasks]) => bucketTasks.length >= MIN_TASKS_PER_TIME_BUCKET)
+      .map(([bucket, bucketTasks]) => ({ bucket, rate: tryRate(bucketTasks), count: bucketTasks.length }))
+      .sort((a, b) => b.rate - a.rate);
+    if (buckets.length < 2) continue;
+
+    const best = buckets[0];
+    const worst = buckets[buckets.length - 1];
+    const effect = best.rate - worst.rate;
+    if (effect < 0.25) continue;
+
+    patterns.push({
+      type: 'time_of_day',
+      confidence: confidenceFor(effect, 0.5, best.count + worst.count, 12),
+      data: {
+        key: `time_of_day:${categoryId}`,
+        description: `${name} works better in the ${best.bucket} than the ${worst.bucket}`,
+        categoryId,
+        category: name,
+        bestTime: best.bucket,
+        worstTime: worst.bucket,
+        buckets: Object.fromEntries(buckets.map((b) => [b.bucket, { tryRate: Math.round(b.rate * 100) / 100, tasks: b.count }])),
+      },
+    });
+  }
+  return patterns;
+}
+
+function detectCapacityTrend(
+  now: Date,
+  tasks: TaskRow[],
+  feedback: { date: Date; overallRating: string | null }[],
+  entries: { timestamp: Date; energyLevel: number | null; sleepQuality: number | null }[]
+): DetectedPattern[] {
+  const recentStart = startOfDay(addDays(todayStr(now), -TREND_WINDOW_DAYS));
+  const priorStart = startOfDay(addDays(todayStr(now), -2 * TREND_WINDOW_DAYS));
+
+  const inRecent = (d: Date) => d >= recentStart && d < now;
+  const inPrior = (d: Date) => d >= priorStart && d < recentStart;
+
+  const windowScore = (inWindow: (d: Date) => boolean) => {
+    const windowTasks = tasks.filter((t) => inWindow(t.dailyPlan.date));
+    const windowFeedback = feedback.filter((f) => inWindow(f.date) && f.overallRating);
+    const energy = average(entries.filter((e) => inWindow(e.timestamp) && e.energyLevel != null).map((e) => e.energyLevel!));
+    const sleep = average(entries.filter((e) => inWindow(e.timestamp) && e.sleepQuality != null).map((e) => e.sleepQuality!));
+    const tooMuch =
+      windowFeedback.length > 0 ? windowFeedback.filter((f) => f.overallRating === 'too_much').length / windowFeedback.length : null;
+    return {
+      samples: windowTasks.length + windowFeedback.length,
+      tryRate: windowTasks.length > 0 ? tryRate(windowTasks) : null,
+      energy,
+      sleep,
+      tooMuch,
+    };
+  };
+
+  const recent = windowScore(inRecent);
+  const prior = windowScore(inPrior);
+  if (recent.samples < 5 || prior.samples < 5) return [];
+
+  // Sum normalized deltas of whatever signals both windows have
+  const deltas: number[] = [];
+  if (recent.tryRate != null && prior.tryRate != null) deltas.push(recent.tryRate - prior.tryRate);
+  if (recent.energy != null && prior.energy != null) deltas.push((recent.energy - prior.energy) / 10);
+  if (recent.sleep != null && prior.sleep != null) deltas.push((recent.sleep - prior.sleep) / 10);
+  if (recent.tooMuch != null && prior.tooMuch != null) deltas.push(prior.tooMuch - recent.tooMuch);
+  const effect = average(deltas);
+  if (effect == null || Math.abs(effect) < 0.1) return [];
+
+  const direction = effect > 0 ? 'rising' : 'falling';
+  const round = (v: number | null) => (v != null ? Math.round(v * 100) / 100 : null);
+  return [
+    {
+      type: 'capacity_trend',
+      confidence: confidenceFor(effect, 0.25, Math.min(recent.samples, prior.samples), 10),
+      data: {
+        key: 'capacity_trend:recent',
+        description:
+          direction === 'rising'
+            ? 'Capacity has been gently rising over the last two weeks'
+            : 'Capacity has been lower over the last two weeks',
+        direction,
+        windowDays: TREND_WINDOW_DAYS,
+        recent: { tryRate: round(recent.tryRate), energy: round(recent.energy), sleep: round(recent.sleep), tooMuchRate: round(recent.tooMuch) },
+        prior: { tryRate: round(prior.tryRate), energy: round(prior.energy), sleep: round(prior.sleep), tooMuchRate: round(prior.tooMuch) },
+      },
+    },
+  ];
+}
+
+/**
+ * Run all detectors over recent history and sync PatternInsight rows:
+ * new patterns are created, recurring ones refreshed (lastObserved, confidence),
+ * and active patterns that no longer hold are deactivated.
+ */
+export async function minePatterns(now: Date = new Date()): Promise<MiningResult> {
+  const since = startOfDay(addDays(todayStr(now), -LOOKBACK_DAYS));
+
+  const [tasks, feedback, entries] = await Promise.all([
+    prisma.task.findMany({
+      where: { dailyPlan: { date: { gte: since, lt: now }, status: 'active' } },
+      select: {
+        status: true,
+        scheduledTime: true,
+        categoryId: true,
+        category: { select: { name: true } },
+        dailyPlan: { select: { date: true } },
+      },
+    }),
+    prisma.dailyFeedback.findMany({
+      where: { date: { gte: since, lt: now }, skipped: false },
+    }),
+    prisma.journalEntry.findMany({
+      where: { timestamp: { gte: since, lt: now } },
+      select: { timestamp: true, energyLevel: true, sleepQuality: true },
+    }),
+  ]);
+
+  const detected: DetectedPattern[] = [
+    ...detectDayOfWeek(tasks, feedback, entries),
+    ...detectCategoryPreference(tasks, feedback),
+    ...detectTimeOfDay(tasks),
+    ...detectCapacityTrend(now, tasks, feedback, entries),
+  ].filter((p) => p.confidence > 0);
+
+  const existing = await prisma.patternInsight.findMany();
+  const existingByKey = new Map(existing.map((p) => [p.patternKey, p]));
+  const seenKeys = new Set<string>();
+  const result: MiningResult = { created: 0, updated: 0, deactivated: 0, active: detected.length };
+
+  await prisma.$transaction(async (tx) => {
+    for (const pattern of detected) {
+      seenKeys.add(pattern.data.key);
+      // Upsert by key: a run started meanwhile (the route or the scheduled job)
+      // may have created the row since `existing` was read
+      await tx.patternInsight.upsert({
+        where: { patternKey: pattern.data.key },
+        update: {
+          patternData: JSON.stringify(pattern.data),
+          confidence: pattern.confidence,
+          lastObserved: now,
+          isActive: true,
+        },
+        create: {
+          patternKey: pattern.data.key,
+          patternType: pattern.type,
+          patternData: JSON.stringify(pattern.data),
+          confidence: pattern.confidence,
+          firstObserved: now,
+          lastObserved: now,
+        },
+      });
+      if (existingByKey.has(pattern.data.key)) result.updated++;
+      else result.created++;
+    }
+
+    const stale = existing.filter((p) => p.isActive && !seenKeys.has(p.patternKey)).map((p) => p.id);
+    if (stale.length > 0) {
+      await tx.patternInsight.updateMany({
+        where: { id: { in: stale } },
+        data: { isActive: false },
+      });
+      result.deactivated = stale.length;
+    }
+  });
+
+  return result;
+}
+
+export async function findPatternInsights(filters?: {
+  patternType?: string;
+  minConfidence?: number;
+  includeInactive?: boolean;
+}): Promise<PatternInsight[]> {
+  return prisma.patternInsight.findMany({
+    where: {
+      ...(filters?.includeInactive ? {} : { isActive: true }),
+      ...(filters?.patternType ? { patternType: filters.patternType } : {}),
+      ...(filters?.minConfidence != null ? { confidence: { gte: filters.minConfidence } } : {}),
+    },
+    orderBy: [{ confidence: 'desc' }, { lastObserved: 'desc' }],
+  });
+}
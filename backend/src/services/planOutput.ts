@@ -0,0 +1,218 @@
+/**
+ * Plan Output: the strict shape we expect back from the LLM, plus the
+ * validator that checks it. Validation errors are phrased so they can be
+ * handed straight back to the model in a repair round-trip.
+ */
+
+/** Single task as returned by LLM (category by name) */
+export interface LLMTask {
+  category: string;
+  title: string;
+  description?: string;
+  time?: string; // e.g. "09:00" or "morning"
+  duration_minutes?: number;
+  priority?: number;
+  pool_item_id?: string; // Optional: if this task came from a Pool item
+  is_i_wonder?: boolean; // true if this is an LLM-generated "I wonder..." idea (not from Pool)
+}
+
+/** Parsed plan from LLM (we expect JSON in a code block) */
+export interface LLMPlanOutput {
+  capacity_notes?: string;
+  mental_state_notes?: string;
+  tasks: LLMTask[];
+}
+
+export interface PlanValidationResult {
+  /** Plan with only the tasks that passed (categories normalized); null if unusable */
+  plan: LLMPlanOutput | null;
+  /** Empty when the output is fully valid */
+  errors: string[];
+}
+
+const MAX_TASKS = 12;
+export const MAX_TITLE_LENGTH = 200;
+export const MAX_DURATION_MINUTES = 600;
+const TIME_PATTERN = /^([01]?\d|2[0-3]):[0-5]\d$/;
+const TIME_WORDS = ['morning', 'afternoon', 'evening'];
+
+/** Pull the JSON object out of a raw response (code block or bare JSON) */
+export function extractJson(raw: string): unknown {
+  const jsonMatch = raw.match(/```(?:json)?\s*([\s\S]*?)```/);
+  const jsonStr = jsonMatch ? jsonMatch[1].trim() : raw.trim();
+  try {
+    return JSON.parse(jsonStr);
+  } catch {
+    // Some models wrap the object in prose; try the outermost braces
+    const start = jsonStr.indexOf('{');
+    const end = jsonStr.lastIndexOf('}');
+    if (start === -1 || end <= start) return undefined;
+    try {
+      return JSON.parse(jsonStr.slice(start, end + 1));
+    } catch {
+      return undefined;
+    }
+  }
+}
+
+function normalizeName(name: string): string {
+  return name.toLowerCase().replace(/[^a-z0-9]/g, '');
+}
+
+function editDistance(a: string, b: string): number {
+  const row = Array.from({ length: b.length + 1 }, (_, i) => i);
+  for (let i = 1; i <= a.length; i++) {
+    let prev = row[0];
+    row[0] = i;
+    for (let j = 1; j <= b.length; j++) {
+      const current = row[j];
+      row[j] = Math.min(row[j] + 1, row[j - 1] + 1, prev + (a[i - 1] === b[j - 1] ? 0 : 1));
+      prev = current;
+    }
+  }
+  return row[b.length];
+}
+
+/**
+ * Match a category name from the LLM to a known category: exact, then
+ * ignoring case/punctuation, then prefix ("Exercise & movement"), then a
+ * small typo allowance ("Excercise"). Returns null when nothing is close.
+ */
+export function matchCategory<T extends { name: string }>(name: string, categories: T[]): T | null {
+  const exact = categories.find((c) => c.name === name);
+  if (exact) return exact;
+
+  const key = normalizeName(name);
+  if (!key) return null;
+  const normalized = categories.find((c) => normalizeName(c.name) === key);
+  if (normalized) return normalized;
+
+  const prefixed = categories.filter((c) => {
+    const candidate = normalizeName(c.name);
+    return key.startsWith(candidate) || candidate.startsWith(key);
+  });
+  if (prefixed.length === 1) return prefixed[0];
+
+  const scored = categories
+    .map((c) => ({ category: c, distance: editDistance(key, normalizeName(c.name)) }))
+    .sort((a, b) => a.distance - b.distance);
+  const best = scored[0];
+  if (!best) return null;
+  const allowed = Math.max(1, Math.floor(normalizeName(best.category.name).length / 4));
+  const tied = scored.length > 1 && scored[1].distance === best.distance;
+  return best.distance <= allowed && !tied ? best.category : null;
+}
+
+function optionalString(value: unknown): value is string | null | undefined {
+  return value === undefined || value === null || typeof value === 'string';
+}
+
+/**
+ * Check a parsed LLM response against the plan schema.
+ * Category names are fuzzy-matched to known categories and rewritten to the
+ * canonical name; tasks that fail are left out of `plan` and described in `errors`.
+ */
+export function validatePlanOutput(value: unknown, categories: { name: string }[]): PlanValidationResult {
+  if (value === undefined) {
+    return { plan: null, errors: ['Response was not valid JSON. Return a single JSON object.'] };
+  }
+  if (typeof value !== 'object' || value === null || Array.isArray(value)) {
+    return { plan: null, errors: ['Top level must be a JSON object with a "tasks" array.'] };
+  }
+
+  const raw = value as Record<string, unknown>;
+  const errors: string[] = [];
+
+  if (!Array.isArray(raw.tasks)) {
+    return { plan: null, errors: ['"tasks" must be an array of task objects.'] };
+  }
+  if (raw.tasks.length === 0) {
+    errors.push('"tasks" is empty; include at least one invitation.');
+  }
+  if (raw.tasks.length > MAX_TASKS) {
+    errors.push(`"tasks" has ${raw.tasks.length} items; include at most ${MAX_TASKS}.`);
+  }
+  if (!optionalString(raw.capacity_notes)) errors.push('"capacity_notes" must be a string or null.');
+  if (!optionalString(raw.mental_state_notes)) errors.push('"mental_state_notes" must be a string or null.');
+
+  const categoryNames = categories.map((c) => c.name).join(', ');
+  const tasks: LLMTask[] = [];
+
+  raw.tasks.slice(0, MAX_TASKS).forEach((item, index) => {
+    const where = `tasks[${index}]`;
+    if (typeof item !== 'object' || item === null || Array.isArray(item)) {
+      errors.push(`${where} must be an object.`);
+      return;
+    }
+    const t = item as Record<string, unknown>;
+    const taskErrors: string[] = [];
+
+    const title = typeof t.title === 'string' ? t.title.trim() : '';
+    if (!title) taskErrors.push(`${where}.title is required.`);
+    else if (title.length > MAX_TITLE_LENGTH) taskErrors.push(`${where}.title is longer than ${MAX_TITLE_LENGTH} characters.`);
+
+    let category: string | null = null;
+    if (typeof t.category !== 'string' || !t.category.trim()) {
+      taskErrors.push(`${where}.category is required (one of: ${categoryNames}).`);
+    } else {
+      category = matchCategory(t.category.trim(), categories)?.name ?? null;
+      if (!category) taskErrors.push(`${where}.category "${t.category}" is not a known category (use one of: ${categoryNames}).`);
+    }
+
+    if (!optionalString(t.description)) taskErrors.push(`${where}.description must be a string or null.`);
+
+    let time: string | undefined;
+    if (t.time !== undefined && t.time !== null) {
+      const value = typeof t.time === 'string' ? t.time.trim().toLowerCase() : '';
+      if (TIME_PATTERN.test(value) || TIME_WORDS.includes(value)) time = value;
+      else taskErrors.push(`${where}.time "${t.time}" must be "HH:MM" (24h) or morning/afternoon/evening.`);
+    }
+
+    let duration: number | undefined;
+    if (t.duration_minutes !== undefined && t.duration_minutes !== null) {
+      const value = Number(t.duration_minutes);
+      if (Number.isInteger(value) && value > 0 && value <= MAX_DURATION_MINUTES) duration = value;
+      else taskErrors.push(`${where}.duration_minutes must be a whole number between 1 and ${MAX_DURATION_MINUTES}.`);
+    }
+
+    let priority: number | undefined;
+    if (t.priority !== undefined && t.priority !== null) {
+      const value = Number(t.priority);
+      if (Number.isInteger(value) && value >= 1 && value <= 5) priority = value;
+      else taskErrors.push(`${where}.priority must be a whole number from 1 to 5.`);
+    }
+
+    if (!optionalString(t.pool_item_id)) taskErrors.push(`${where}.pool_item_id must be a string or null.`);
+    if (t.is_i_wonder !== undefined && t.is_i_wonder !== null && typeof t.is_i_wonder !== 'boolean') {
+      taskErrors.push(`${where}.is_i_wonder must be true or false.`);
+    }
+
+    if (taskErrors.length > 0) {
+      errors.push(...taskErrors);
+      return;
+    }
+
+    tasks.push({
+      category: category!,
+      title,
+      description: typeof t.description === 'string' && t.description.trim() ? t.description.trim() : undefined,
+      time,
+      duration_minutes: duration,
+      priority,
+      pool_item_id: typeof t.pool_item_id === 'string' && t.pool_item_id ? t.pool_item_id : undefined,
+      is_i_wonder: t.is_i_wonder === true,
+    });
+  });
+
+  return {
+    plan:
+      tasks.length > 0
+        ? {
+            capacity_notes: typeof raw.capacity_notes === 'string' ? raw.capacity_notes : undefined,
+            mental_state_notes: typeof raw.mental_state_notes === 'string' ? raw.mental_state_notes : undefined,
+            tasks,
+          }
+        : null,
+    errors,
+  };
+}
@@ -7,12 +7,31 @@
  * See DAYLAUNCH_V1_PLAN.md §1.4.
  */
 
-import { generate } from '../lib/ollama.js';
+import { randomUUID } from 'crypto';
+import { generate, generateStream, getLLMProvider } from '../lib/llm.js';
 import prisma from '../lib/prisma.js';
+import { addDays, dayName, formatClock, startOfDay, toDateStr, zonedTimeToUtc } from '../lib/dates.js';
 import { DailyPlanService } from './dailyPlanService.js';
 import { JournalService } from './journalService.js';
 import { CategoryService } from './categoryService.js';
-import { PoolService } from './poolService.js';
+import { PoolItemWithCategory, PoolService } from './poolService.js';
+import { scoreStaleness, StalenessScore } from './poolStaleness.js';
+import { calibrateDurations, DurationCalibration, paceOf } from './durationCalibration.js';
+import { parseStoredInsights } from './feedbackAnalyzer.js';
+import { findPatternInsights, PatternData } from './patternMiner.js';
+import { extractJson, LLMPlanOutput, LLMTask, validatePlanOutput } from './planOutput.js';
+import { AttemptRecord, saveAttempts } from './generationLog.js';
+import { buildOfflinePlan } from './fallbackPlanner.js';
+import { FixedBlock, scheduleSlots } from './timeSlotScheduler.js';
+import {
+  allowedWindows,
+  CategoryPreferences,
+  describePreferences,
+  neglect,
+  parseCategoryPreferences,
+  remainingUses,
+  TOUCH_LOOKBACK_DAYS,
+} from './categoryPreferences.js';
 import { PoolItem } from '@prisma/client';
 
 const planService = new DailyPlanService();
@@ -20,6 +39,14 @@ const journalService = new JournalService();
 const categoryService = new CategoryService();
 const poolService = new PoolService();
 
+/** A category with its parsed preferences and recent history */
+export interface PlanningCategory {
+  id: string;
+  name: string;
+  preferences: CategoryPreferences;
+  recentTouches: string[]; // YYYY-MM-DD per task in this area over the lookback window
+}
+
 /** Context we pass to the LLM for planning */
 export interface PlanningContext {
   date: string;
@@ -27,44 +54,77 @@ export interface PlanningContext {
   capacityScore: string;
   capacityFactors: Record<string, string>;
   mentalStateSummary: string;
-  recentFeedback: { rating: string; elaboration?: string }[];
+  similarPastEntries: { date: string; excerpt: string; similarity: number }[];
+  recentFeedback: {
+    rating: string;
+    sentiment?: string;
+    insights: { insight: string; kind: string; category?: string }[];
+    elaboration?: string; // Only when insights haven't been extracted yet
+  }[];
   taskHistorySummary: string;
-  categories: { id: string; name: string }[];
+  patternInsights: { type: string; description: string; confidence: number }[];
+  categories: PlanningCategory[];
   poolItems: {
-    tasks: PoolItem[];
-    aspirations: PoolItem[];
-    events: PoolItem[]; // Already placed on this date
+    tasks: PoolItemWithCategory[]; // Most overdue first
+    aspirations: PoolItemWithCategory[]; // Most overdue first
+    events: PoolItemWithCategory[]; // Already placed on this date
   };
+  staleness: Record<string, StalenessScore>; // By Pool item id (tasks and aspirations)
+  durations: DurationCalibration; // Planned vs actual minutes from recent completions
 }
 
-/** Single task as returned by LLM (category by name) */
-export interface LLMTask {
-  category: string;
-  title: string;
-  description?: string;
-  time?: string; // e.g. "09:00" or "morning"
-  duration_minutes?: number;
-  priority?: number;
-  pool_item_id?: string; // Optional: if this task came from a Pool item
-  is_i_wonder?: boolean; // true if this is an LLM-generated "I wonder..." idea (not from Pool)
+export type { LLMTask, LLMPlanOutput } from './planOutput.js';
+
+/** Progress reported while a plan is generated (for streaming clients) */
+export type PlanProgressEvent =
+  | { type: 'phase'; phase: 'gathering_context' | 'thinking' | 'repairing' | 'planning_offline' | 'saving'; message: string }
+  | { type: 'token'; text: string };
+
+export interface GeneratePlanOptions {
+  onProgress?: (event: PlanProgressEvent) => void;
+  signal?: AbortSignal; // Aborts the LLM request; nothing is saved
+  offline?: boolean; // Skip the LLM and use the rule-based planner
+  replace?: boolean; // Save as a new revision when the date already has a plan
+  carryOver?: boolean; // With replace: keep completed/in-progress tasks (default true)
 }
 
-/** Parsed plan from LLM (we expect JSON in a code block) */
-export interface LLMPlanOutput {
-  capacity_notes?: string;
-  mental_state_notes?: string;
-  tasks: LLMTask[];
+/** llm = written by the model; offline = rule-based fallback planner */
+export type PlanSource = 'llm' | 'offline';
+
+export interface GeneratePlanResult {
+  planId: string;
+  taskCount: number;
+  source: PlanSource;
+  offlineReason?: string;
+  revision: number;
+  carriedOverCount: number; // Tasks kept from the revision this one replaced
+  adjustments: string[]; // Tasks moved or left out for category preferences
 }
 
-const DAY_NAMES = ['Sunday', 'Monday', 'Tuesday', 'Wednesday', 'Thursday', 'Friday', 'Saturday'];
+// Tasks worth keeping when a date's plan is regenerated
+const CARRY_OVER_STATUSES = ['completed', 'in_progress'];
+
+// Extra round-trips allowed when the LLM's JSON doesn't match the plan schema
+const MAX_REPAIR_ATTEMPTS = process.env.MAX_REPAIR_ATTEMPTS ? Number(process.env.MAX_REPAIR_ATTEMPTS) : 2;
+
+// Learned patterns in the prompt: only confident ones, strongest first, capped
+// so they don't crowd out journal and Pool context in the model's window
+const PATTERN_MIN_CONFIDENCE = Number(process.env.PATTERN_MIN_CONFIDENCE) || 0.5;
+const MAX_PATTERN_INSIGHTS = Number(process.env.MAX_PATTERN_INSIGHTS) || 5;
+
+// Older journal entries that resemble the latest one (semantic search)
+const SIMILAR_ENTRY_LIMIT = 2;
+const SIMILAR_ENTRY_MIN_SIMILARITY = 0.75;
+
+// Capacity score nudge when recent tasks ran well over (or under) their planned time
+const PACE_ADJUSTMENT = 0.1;
 
 export async function gatherContext(forDate: Date): Promise<PlanningContext> {
-  const dateStr = forDate.toISOString().split('T')[0];
-  const dayOfWeek = DAY_NAMES[forDate.getDay()];
+  const dateStr = toDateStr(forDate);
+  const dayOfWeek = dayName(forDate);
 
   // Capacity indicators (reuse logic similar to MCP)
-  const startDate = new Date(forDate);
-  startDate.setDate(startDate.getDate() - 7);
+  const startDate = startOfDay(addDays(dateStr, -7));
 
   const entries = await prisma.journalEntry.findMany({
     where: { timestamp: { gte: startDate, lt: forDate } },
@@ -73,7 +133,7 @@ export async function gatherContext(forDate: Date): Promise<PlanningContext> {
 
   const tasks = await prisma.task.findMany({
     where: {
-      dailyPlan: { date: { gte: startDate, lt: forDate } },
+      dailyPlan: { date: { gte: startDate, lt: forDate }, status: 'active' },
     },
     include: { category: true },
   });
@@ -95,8 +155,14 @@ export async function gatherContext(forDate: Date): Promise<PlanningContext> {
   const completionRate =
     tasks.length > 0 ? tasks.filter((t) => t.status === 'completed').length / tasks.length : 0.5;
 
+  // Plans that keep running long are too full, whatever the energy says
+  const durations = await calibrateDurations(forDate);
+  const pace = paceOf(durations.ratio);
+
   let capacityScore: 'low' | 'medium' | 'high' = 'medium';
-  const score = (avgEnergy / 10) * 0.4 + (avgSleep / 10) * 0.3 + completionRate * 0.3;
+  let score = (avgEnergy / 10) * 0.4 + (avgSleep / 10) * 0.3 + completionRate * 0.3;
+  if (pace === 'slower') score -= PACE_ADJUSTMENT;
+  else if (pace === 'quicker') score += PACE_ADJUSTMENT;
   if (score < 0.4) capacityScore = 'low';
   else if (score > 0.7) capacityScore = 'high';
 
@@ -104,6 +170,7 @@ export async function gatherContext(forDate: Date): Promise<PlanningContext> {
     energy: avgEnergy >= 7 ? 'good' : avgEnergy >= 4 ? 'moderate' : 'low',
     sleep: avgSleep >= 7 ? 'good' : avgSleep >= 4 ? 'moderate' : 'poor',
     recent_completion: completionRate >= 0.7 ? 'high' : completionRate >= 0.4 ? 'moderate' : 'low',
+    ...(pace ? { pace } : {}),
   };
 
   // Recent journal summary (last 3 entries)
@@ -114,33 +181,89 @@ export async function gatherContext(forDate: Date): Promise<PlanningContext> {
       : recentEntries
           .map(
             (e) =>
-              `${e.timestamp.toISOString().split('T')[0]}: ${e.content.substring(0, 300)}${e.content.length > 300 ? '...' : ''}`
+              `${toDateStr(e.timestamp)}: ${e.content.substring(0, 300)}${e.content.length > 300 ? '...' : ''}`
           )
           .join('\n');
 
+  // Past entries that resemble today's mood, from before the recent window.
+  // Best-effort: skipped if embeddings aren't available.
+  let similarPastEntries: PlanningContext['similarPastEntries'] = [];
+  if (recentEntries.length > 0) {
+    try {
+      const similar = await journalService.findSimilar(recentEntries[0], {
+        before: startDate,
+        limit: SIMILAR_ENTRY_LIMIT,
+        minSimilarity: SIMILAR_ENTRY_MIN_SIMILARITY,
+      });
+      similarPastEntries = similar.map((r) => ({
+        date: toDateStr(r.entry.timestamp),
+        excerpt: `${r.entry.content.substring(0, 200)}${r.entry.content.length > 200 ? '...' : ''}`,
+        similarity: Math.round(r.similarity * 100) / 100,
+      }));
+    } catch (error: any) {
+      console.error('Similar journal lookup skipped:', error.message);
+    }
+  }
+
   // Recent feedback
-  const feedbackStart = new Date(forDate);
-  feedbackStart.setDate(feedbackStart.getDate() - 14);
+  const feedbackStart = startOfDay(addDays(dateStr, -14));
   const feedback = await prisma.dailyFeedback.findMany({
-    where: { date: { gte: feedbackStart, lt: forDate } },
+    where: { date: { gte: feedbackStart, lt: forDate }, skipped: false, overallRating: { not: null } },
     orderBy: { date: 'desc' },
     take: 5,
   });
+  // Prefer structured insights from the feedback analyzer; fall back to a raw
+  // snippet only while a row is still waiting to be analyzed
   const recentFeedback = feedback.map((f) => ({
-    rating: f.overallRating,
-    elaboration: f.textElaboration ? f.textElaboration.substring(0, 200) : undefined,
+    rating: f.overallRating ?? 'unrated',
+    sentiment: f.sentiment ?? undefined,
+    insights: parseStoredInsights(f.extractedInsights).map((i) => ({
+      insight: i.insight,
+      kind: i.kind,
+      category: i.category,
+    })),
+    elaboration:
+      !f.extractedInsights && f.textElaboration ? f.textElaboration.substring(0, 200) : undefined,
   }));
 
   // Task history summary
   const completedCount = tasks.filter((t) => t.status === 'completed').length;
   const taskHistorySummary = `Last 7 days: ${completedCount}/${tasks.length} tasks completed (${tasks.length ? Math.round(completionRate * 100) : 0}%).`;
 
-  // Categories
+  // Learned patterns (from the pattern miner)
+  const patterns = await findPatternInsights({ minConfidence: PATTERN_MIN_CONFIDENCE });
+  const patternInsights = patterns.slice(0, MAX_PATTERN_INSIGHTS).map((p) => ({
+    type: p.patternType,
+    description: (JSON.parse(p.patternData) as PatternData).description,
+    confidence: p.confidence,
+  }));
+
+  // Categories, with how often each area has come up lately (skipped tasks don't count)
   const categories = await categoryService.findAll(true);
-  const categoryList = categories.map((c) => ({ id: c.id, name: c.name }));
+  const touchTasks = await prisma.task.findMany({
+    where: {
+      status: { not: 'skipped' },
+      dailyPlan: { date: { gte: zonedTimeToUtc(addDays(dateStr, -TOUCH_LOOKBACK_DAYS)), lt: forDate }, status: 'active' },
+    },
+    select: { categoryId: true, dailyPlan: { select: { date: true } } },
+  });
+  const categoryList: PlanningCategory[] = categories.map((c) => ({
+    id: c.id,
+    name: c.name,
+    preferences: parseCategoryPreferences(c),
+    recentTouches: touchTasks.filter((t) => t.categoryId === c.id).map((t) => toDateStr(t.dailyPlan.date)),
+  }));
 
-  // Pool items available for this date (respects cooldown)
-  const poolItems = await poolService.getAvailableForDate(forDate);
+  // Pool items available for this date (respects cooldown and use caps), longest-waiting first
+  const { tasks: poolTasks, aspirations, events } = await poolService.getAvailableForDate(forDate);
+  const categoryTasks = new Map(categoryList.map((c) => [c.id, c.recentTouches.length]));
+  const staleness: Record<string, StalenessScore> = {};
+  for (const item of [...poolTasks, ...aspirations]) {
+    staleness[item.id] = scoreStaleness(item, forDate, categoryTasks);
+  }
+  const byStaleness = (a: PoolItemWithCategory, b: PoolItemWithCategory) =>
+    staleness[b.id].score - staleness[a.id].score || a.title.localeCompare(b.title);
+  const poolItems = { tasks: [...poolTasks].sort(byStaleness), aspirations: [...aspirations].sort(byStaleness), events };
 
   return {
     date: dateStr,
@@ -148,36 +271,74 @@ export async function gatherContext(forDate: Date): Promise<PlanningContext> {
     capacityScore,
     capacityFactors,
     mentalStateSummary,
+    similarPastEntries,
     recentFeedback,
     taskHistorySummary,
+    patternInsights,
     categories: categoryList,
     poolItems,
+    staleness,
+    durations,
   };
 }
 
-function buildPrompt(ctx: PlanningContext): string {
-  const categoriesList = ctx.categories.map((c) => c.name).join(', ');
+function formatFeedback(f: PlanningContext['recentFeedback'][number]): string {
+  const label = `${f.rating}${f.sentiment ? ` (${f.sentiment})` : ''}`;
+  if (f.insights.length > 0) {
+    const insights = f.insights
+      .map((i) => `${i.kind === 'worked' ? '+' : i.kind === 'did_not_work' ? '-' : '~'} ${i.insight}${i.category ? ` [${i.category}]` : ''}`)
+      .join('; ');
+    return `- ${label}: ${insights}`;
+  }
+  return `- ${label}${f.elaboration ? `: ${f.elaboration}` : ''}`;
+}
 
-  // Format Pool items for the prompt
-  const poolTasksList =
-    ctx.poolItems.tasks.length > 0
-      ? ctx.poolItems.tasks
-          .map((item) => `- ${item.title}${item.notes ? ` (${item.notes})` : ''} [category: ${item.category?.name || 'uncategorized'}]`)
-          .join('\n')
-      : '(none)';
+/** One line per category that has preferences, a limit reached, or hasn't come up lately */
+function formatCategoryRhythms(ctx: PlanningContext): string {
+  const lines = ctx.categories.flatMap((c) => {
+    const notes: string[] = [];
+    const prefs = describePreferences(c.preferences);
+    if (prefs) notes.push(prefs);
+    if (remainingUses(c.preferences, c.recentTouches, ctx.date) === 0) {
+      notes.push('limit already reached, leave it out today');
+    }
+    const { daysSince, neglected } = neglect(c.preferences, c.recentTouches, ctx.date);
+    if (neglected) {
+      notes.push(`${daysSince === null ? "hasn't come up lately" : `last came up ${daysSince} days ago`}; a gentle invitation could be nice`);
+    }
+    return notes.length > 0 ? [`- ${c.name}: ${notes.join('; ')}`] : [];
+  });
+  return lines.length > 0 ? lines.join('\n') : 'No particular preferences.';
+}
+
+/** How long things have actually taken, per category with enough completions */
+function formatDurations(ctx: PlanningContext): string {
+  const { durations } = ctx;
+  if (durations.byCategory.length === 0 && durations.ratio === null) return 'Not enough timed tasks yet.';
+  const lines = durations.byCategory.map(
+    (c) => `- ${c.name}: usually about ${c.typicalMinutes} min${c.ratio !== null ? ` (${c.ratio}× what was planned)` : ''}`
+  );
+  if (durations.ratio !== null) lines.push(`- Overall: tasks took ${durations.ratio}× their planned time`);
+  return lines.join('\n');
+}
 
+export function buildPrompt(ctx: PlanningContext): string {
+  const categoriesList = ctx.categories.map((c) => c.name).join(', ');
+
+  // Format Pool items for the prompt; ones that have waited long are flagged
+  const formatPoolItem = (item: PoolItemWithCategory) => {
+    const waiting = ctx.staleness[item.id]?.forgotten ? ` — waiting ${ctx.staleness[item.id].waitingDays} days, worth a gentle look` : '';
+    return `- ${item.title}${item.notes ? ` (${item.notes})` : ''} [category: ${item.category?.name || 'uncategorized'}]${waiting}`;
+  };
+  const poolTasksList = ctx.poolItems.tasks.length > 0 ? ctx.poolItems.tasks.map(formatPoolItem).join('\n') : '(none)';
   const poolAspirationsList =
-    ctx.poolItems.aspirations.length > 0
-      ? ctx.poolItems.aspirations
-          .map((item) => `- ${item.title}${item.notes ? ` (${item.notes})` : ''} [category: ${item.category?.name || 'uncategorized'}]`)
-          .join('\n')
-      : '(none)';
+    ctx.poolItems.aspirations.length > 0 ? ctx.poolItems.aspirations.map(formatPoolItem).join('\n') : '(none)';
 
   const eventsList =
     ctx.poolItems.events.length > 0
       ? ctx.poolItems.events
           .map((item) => {
-            const time = item.scheduledAt ? new Date(item.scheduledAt).toLocaleTimeString('en-US', { hour: 'numeric', minute: '2-digit' }) : '';
+            const time = item.scheduledAt ? formatClock(new Date(item.scheduledAt)) : '';
             return `- ${item.title}${time ? ` at ${time}` : ''}${item.notes ? ` (${item.notes})` : ''}`;
           })
           .join('\n')
@@ -193,19 +354,31 @@ function buildPrompt(ctx: PlanningContext): string {
 
 ## Context
 - Date: ${ctx.date} (${ctx.dayOfWeek})
-- Capacity today: ${ctx.capacityScore} (energy: ${ctx.capacityFactors.energy}, sleep: ${ctx.capacityFactors.sleep}, recent completion: ${ctx.capacityFactors.recent_completion})
+- Capacity today: ${ctx.capacityScore} (energy: ${ctx.capacityFactors.energy}, sleep: ${ctx.capacityFactors.sleep}, recent completion: ${ctx.capacityFactors.recent_completion}${ctx.capacityFactors.pace ? `, pace vs plans: ${ctx.capacityFactors.pace}` : ''})
 - What they've tended to try lately: ${ctx.taskHistorySummary}
 
 ## Recent mental state (from journal)
 ${ctx.mentalStateSummary}
 
-## Recent plan feedback (what felt right / too much)
-${ctx.recentFeedback.length ? ctx.recentFeedback.map((f) => `- ${f.rating}${f.elaboration ? `: ${f.elaboration}` : ''}`).join('\n') : 'No recent feedback.'}
+## Earlier days that felt similar (from journal)
+${ctx.similarPastEntries.length ? ctx.similarPastEntries.map((e) => `- ${e.date}: ${e.excerpt}`).join('\n') : 'None found.'}
+
+## Recent plan feedback (what felt right / too much; + worked, - didn't, ~ noticed)
+${ctx.recentFeedback.length ? ctx.recentFeedback.map(formatFeedback).join('\n') : 'No recent feedback.'}
+
+## Patterns noticed over time (gentle hints, not rules)
+${ctx.patternInsights.length ? ctx.patternInsights.map((p) => `- ${p.description} (confidence ${p.confidence.toFixed(2)})`).join('\n') : 'No patterns yet.'}
+
+## How long things have taken (last 30 days)
+${formatDurations(ctx)}
 
 ## Available categories (areas of curiosity)
 ${categoriesList}
 
-## Pool items (raw materials to select from)
+## Category rhythms (preferred hours and limits are applied when the plan is saved)
+${formatCategoryRhythms(ctx)}
+
+## Pool items (raw materials to select from; longest-waiting first)
 **Tasks available:**
 ${poolTasksList}
 
@@ -220,8 +393,12 @@ Build today's plan by selecting, adapting, and sequencing from the Pool items ab
 - Use Pool tasks/aspirations as-is or adapt them (e.g. simplify if capacity is low)
 - Optionally add **0–2 "I wonder…" ideas** of your own (not from the Pool) to keep curiosity alive
 - Respect capacity: if low, fewer/simpler items; if high, a fuller day
-- Spread across categories
+- Let the patterns above nudge what you pick and when (e.g. lighter on harder days)
+- Spread across categories, leaning gently toward areas that haven't come up lately
+- Put each category's invitations in its preferred hours, and leave out categories whose limit is reached
 - Work around the events listed above
+- Size duration_minutes by how long things have actually taken, not how long they ought to
+- Consider one item marked "worth a gentle look" if it fits today; it has waited a while
 
 Generate 4–8 invitations total (mix of Pool items + optional "I wonder…" ideas). Each is something to explore—not a target. Be concrete and kind.
 
@@ -250,162 +427,384 @@ Respond with a single JSON object (no other text) in this exact format:
 `;
 }
 
-function parseLLMResponse(raw: string): LLMPlanOutput | null {
-  const jsonMatch = raw.match(/```(?:json)?\s*([\s\S]*?)```/);
-  const jsonStr = jsonMatch ? jsonMatch[1].trim() : raw.trim();
-  try {
-    return JSON.parse(jsonStr) as LLMPlanOutput;
-  } catch {
-    return null;
+function buildRepairPrompt(originalPrompt: string, response: string, errors: string[]): string {
+  return `${originalPrompt}
+
+## Your previous answer had problems
+\`\`\`
+${response.slice(0, 4000)}
+\`\`\`
+
+Problems found:
+${errors.map((e) => `- ${e}`).join('\n')}
+
+Return the corrected plan as a single JSON object in the exact format above. No other text.`;
+}
+
+/**
+ * Ask the LLM for a plan and validate it against the plan schema. Invalid
+ * output gets up to MAX_REPAIR_ATTEMPTS repair round-trips that hand the
+ * validation errors back to the model. Every attempt is pushed to `attempts`.
+ * If the last attempt is still partly invalid, its valid tasks are used.
+ */
+async function requestPlanFromLLM(
+  ctx: PlanningContext,
+  attempts: AttemptRecord[],
+  options: GeneratePlanOptions,
+  prompt: string
+): Promise<LLMPlanOutput> {
+  const { onProgress, signal } = options;
+  const provider = getLLMProvider();
+  let currentPrompt = prompt;
+  let lastErrors: string[] = [];
+  let lastPlan: LLMPlanOutput | null = null;
+
+  for (let attempt = 1; attempt <= MAX_REPAIR_ATTEMPTS + 1; attempt++) {
+    if (attempt === 1) {
+      onProgress?.({ type: 'phase', phase: 'thinking', message: 'Wondering what today could hold' });
+    } else {
+      onProgress?.({ type: 'phase', phase: 'repairing', message: 'Tidying up the plan format' });
+    }
+
+    const started = Date.now();
+    const generateOptions = { prompt: currentPrompt, temperature: attempt === 1 ? 0.6 : 0.2, maxTokens: 2048, signal, json: true };
+    const response = onProgress
+      ? await generateStream(generateOptions, (text) => onProgress({ type: 'token', text }))
+      : await generate(generateOptions);
+    signal?.throwIfAborted();
+
+    const { plan, errors } = validatePlanOutput(extractJson(response), ctx.categories);
+    attempts.push({
+      attempt,
+      provider: provider.name,
+      rawResponse: response,
+      errors,
+      success: errors.length === 0,
+      durationMs: Date.now() - started,
+    });
+
+    if (plan && errors.length === 0) return plan;
+    lastErrors = errors;
+    lastPlan = plan;
+    currentPrompt = buildRepairPrompt(prompt, response, errors);
+  }
+
+  if (lastPlan) {
+    console.warn(`Plan for ${ctx.date} kept ${lastPlan.tasks.length} valid task(s); dropped the rest:`, lastErrors);
+    return lastPlan;
   }
+  throw new Error(
+    `LLM did not return a valid plan after ${attempts.length} attempt(s): ${lastErrors.slice(0, 5).join(' ')}`
+  );
 }
 
-function timeToDate(dateStr: string, timeStr: string): Date {
-  const d = new Date(dateStr);
-  if (!timeStr || timeStr === 'morning') {
-    d.setHours(9, 0, 0, 0);
-    return d;
+/**
+ * Get plan content from the LLM, or from the rule-based planner when the LLM
+ * is switched off, unreachable, or fails. A cancelled request is not replaced.
+ */
+export async function planContent(
+  ctx: PlanningContext,
+  forDate: Date,
+  attempts: AttemptRecord[],
+  options: GeneratePlanOptions,
+  prompt: string = buildPrompt(ctx)
+): Promise<{ parsed: LLMPlanOutput; source: PlanSource; offlineReason?: string }> {
+  let offlineReason: string | undefined;
+  if (options.offline) {
+    offlineReason = 'Offline planning requested';
+  } else if (!(await getLLMProvider().isAvailable())) {
+    offlineReason = `LLM provider (${getLLMProvider().name}) is not reachable`;
+  } else {
+    try {
+      return { parsed: await requestPlanFromLLM(ctx, attempts, options, prompt), source: 'llm' };
+    } catch (error: any) {
+      if (options.signal?.aborted) throw error;
+      offlineReason = `LLM generation failed: ${error.message}`;
+      console.warn(`Falling back to offline planner for ${ctx.date}:`, error.message);
+    }
+  }
+
+  options.onProgress?.({ type: 'phase', phase: 'planning_offline', message: 'Putting together a simple plan offline' });
+  return { parsed: buildOfflinePlan(ctx, forDate), source: 'offline', offlineReason };
+}
+
+/** Thrown when a plan for the date already exists or is already being generated */
+export class PlanConflictError extends Error {
+  constructor(message: string, public planId?: string) {
+    super(message);
+    this.name = 'PlanConflictError';
   }
-  if (timeStr === 'afternoon') {
-    d.setHours(14, 0, 0, 0);
-    return d;
+}
+
+// Dates (YYYY-MM-DD) with a generation in flight in this process. Two requests
+// for the same day would otherwise both run the LLM and race on the unique date.
+const generationsInFlight = new Set<string>();
+
+/** True while a plan for this date is being generated in this process */
+export function isGenerationInFlight(forDate: Date): boolean {
+  return generationsInFlight.has(toDateStr(forDate));
+}
+
+/**
+ * Run `fn` as the only generation for this date in this process; anything
+ * else that plans the same day meanwhile gets a PlanConflictError.
+ */
+export async function withGenerationLock<T>(forDate: Date, fn: () => Promise<T>): Promise<T> {
+  const dateKey = toDateStr(forDate);
+  if (generationsInFlight.has(dateKey)) {
+    throw new PlanConflictError(`A plan for ${dateKey} is already being generated`);
   }
-  if (timeStr === 'evening') {
-    d.setHours(18, 0, 0, 0);
-    return d;
+  generationsInFlight.add(dateKey);
+  try {
+    return await fn();
+  } finally {
+    generationsInFlight.delete(dateKey);
   }
-  const [h, m] = timeStr.split(':').map(Number);
-  d.setHours(h ?? 9, m ?? 0, 0, 0);
-  return d;
 }
 
-export async function generatePlan(forDate: Date): Promise<{ planId: string; taskCount: number }> {
-  const ctx = await gatherContext(forDate);
-
-  // Use Prisma transaction to ensure atomicity: plan + tasks + Pool updates
-  return await prisma.$transaction(async (tx) => {
-    // 1. Auto-place events (they go on their scheduled_at date/time)
-    const eventsToPlace: Array<{ poolItem: PoolItem; scheduledTime: Date }> = [];
-    for (const event of ctx.poolItems.events) {
-      if (event.scheduledAt) {
-        eventsToPlace.push({
-          poolItem: event,
-          scheduledTime: new Date(event.scheduledAt),
-        });
-      }
+/** A task ready to insert, resolved from the LLM output before the transaction */
+export interface TaskDraft {
+  categoryId: string;
+  poolItemId: string | null;
+  title: string;
+  description?: string | null;
+  scheduledTime?: Date;
+  durationMinutes?: number;
+  priority: number;
+}
+
+export interface DraftOptions {
+  includeEvents?: boolean; // Add the day's events as tasks (default true)
+  fixed?: FixedBlock[]; // Other items already on the day to schedule around
+  notBefore?: Date; // Earliest start for new tasks
+  alreadyPlanned?: string[]; // Category ids of tasks already on the day (count toward limits)
+}
+
+export interface DraftResult {
+  drafts: TaskDraft[];
+  adjustments: string[]; // Tasks moved or left out to honour category preferences
+}
+
+/**
+ * Turn plan content into insertable tasks: leave out what goes over a
+ * category's "at most" limit, match Pool items, fit tasks into a
+ * non-overlapping timeline (inside each category's preferred hours) around
+ * the day's events, and (unless includeEvents is false) add the events.
+ */
+export function draftTasks(
+  ctx: PlanningContext,
+  parsed: LLMPlanOutput,
+  forDate: Date,
+  { includeEvents = true, fixed = [], notBefore, alreadyPlanned = [] }: DraftOptions = {}
+): DraftResult {
+  const categoryByName = new Map(ctx.categories.map((c) => [c.name, c]));
+  const dateStr = toDateStr(forDate);
+  const adjustments: string[] = [];
+
+  // Frequency limits: keep the earliest-suggested tasks in each limited category
+  const usesLeft = new Map<string, number>();
+  for (const c of ctx.categories) {
+    const remaining = remainingUses(c.preferences, c.recentTouches, ctx.date);
+    if (remaining !== null) usesLeft.set(c.id, remaining - alreadyPlanned.filter((id) => id === c.id).length);
+  }
+  const overLimit = new Set<LLMTask>();
+  for (const t of [...parsed.tasks].sort((a, b) => (a.priority ?? 3) - (b.priority ?? 3))) {
+    const category = categoryByName.get(t.category)!;
+    const left = usesLeft.get(category.id);
+    if (left === undefined) continue;
+    if (left <= 0) {
+      overLimit.add(t);
+      adjustments.push(`Left out "${t.title}": ${category.name} has reached its limit`);
     }
+    usesLeft.set(category.id, left - 1);
+  }
+  const tasks = parsed.tasks.filter((t) => !overLimit.has(t));
 
-    // 2. Build prompt with Pool items (excluding events, which we'll place directly)
-    const prompt = buildPrompt(ctx);
+  const selectable = [...ctx.poolItems.tasks, ...ctx.poolItems.aspirations];
 
-    // 3. Generate plan from LLM
-    const response = await generate({
-      prompt,
-      options: { temperature: 0.6, num_predict: 2048 },
-    });
+  // Build a map of Pool items by title (for matching LLM response to Pool items)
+  const poolItemsByTitle = new Map<string, PoolItem>();
+  selectable.forEach((item) => {
+    poolItemsByTitle.set(item.title.toLowerCase().trim(), item);
+  });
 
-    const parsed = parseLLMResponse(response);
-    if (!parsed || !Array.isArray(parsed.tasks)) {
-      throw new Error('LLM did not return a valid plan with tasks. Raw response: ' + response.slice(0, 500));
+  // Tasks from the plan (Pool items + "I wonder..." ideas).
+  // Categories were already matched to known names by the validator.
+  const eventBlocks: FixedBlock[] = ctx.poolItems.events
+    .filter((e) => e.scheduledAt)
+    .map((e) => ({ start: new Date(e.scheduledAt!), end: e.scheduledEnd ? new Date(e.scheduledEnd) : null }));
+  const allowed = tasks.map((t) => allowedWindows(categoryByName.get(t.category)!.preferences));
+  const times = scheduleSlots(
+    dateStr,
+    tasks.map((t, index) => ({ time: t.time, durationMinutes: t.duration_minutes, allowed: allowed[index] })),
+    [...eventBlocks, ...fixed],
+    { notBefore }
+  );
+
+  const drafts: TaskDraft[] = [];
+  tasks.forEach((t, index) => {
+    const category = categoryByName.get(t.category)!;
+    const time = times[index];
+    if (allowed[index] && !time) {
+      adjustments.push(`Left out "${t.title}": no free time in ${category.name}'s preferred hours`);
+      return;
+    }
+    if (allowed[index] && time && t.time && /^\d/.test(t.time) && formatClock(time) !== t.time.padStart(5, '0')) {
+      adjustments.push(`Moved "${t.title}" to ${formatClock(time)}, within ${category.name}'s preferred hours`);
     }
 
-    const mentalStateSummary = [parsed.capacity_notes, parsed.mental_state_notes]
-      .filter(Boolean)
-      .join(' ');
+    // Match Pool item by title (if not marked as "I wonder..."), then by pool_item_id
+    let matchedPoolItem: PoolItem | null = null;
+    if (!t.is_i_wonder) {
+      matchedPoolItem = poolItemsByTitle.get(t.title.toLowerCase().trim()) || null;
+      if (!matchedPoolItem && t.pool_item_id) {
+        matchedPoolItem = selectable.find((item) => item.id === t.pool_item_id) || null;
+      }
+    }
 
-    // 4. Create plan
-    const plan = await tx.dailyPlan.create({
-      data: {
-        date: forDate,
-        capacityScore: ctx.capacityScore,
-        mentalStateSummary: mentalStateSummary || undefined,
-      },
+    drafts.push({
+      categoryId: category.id,
+      poolItemId: matchedPoolItem?.id || null,
+      title: t.title,
+      description: t.description,
+      scheduledTime: time,
+      durationMinutes: t.duration_minutes ?? undefined,
+      priority: t.priority ?? 3,
     });
+  });
 
-    const categoryByName = new Map(ctx.categories.map((c) => [c.name, c.id]));
-    const dateStr = forDate.toISOString().split('T')[0];
-    const poolItemIdsToMark: string[] = [];
-
-    // Build a map of Pool items by title (for matching LLM response to Pool items)
-    const poolItemsByTitle = new Map<string, PoolItem>();
-    [...ctx.poolItems.tasks, ...ctx.poolItems.aspirations].forEach((item) => {
-      poolItemsByTitle.set(item.title.toLowerCase().trim(), item);
+  // Events are placed as-is
+  for (const event of includeEvents ? ctx.poolItems.events : []) {
+    const categoryId = event.categoryId || ctx.categories[0]?.id; // Fallback to first category if none
+    if (!event.scheduledAt || !categoryId) continue;
+    const start = new Date(event.scheduledAt);
+    // This day's occurrence, so replans schedule around the whole event
+    const minutes = event.scheduledEnd ? Math.round((new Date(event.scheduledEnd).getTime() - start.getTime()) / 60000) : 0;
+    drafts.push({
+      categoryId,
+      poolItemId: event.id,
+      title: event.title,
+      description: event.notes,
+      scheduledTime: start,
+      durationMinutes: minutes > 0 ? minutes : undefined,
+      priority: 1, // Events get high priority (early in order)
     });
+  }
 
-    // 5. Create tasks from LLM response (Pool items + "I wonder..." ideas)
-    for (const t of parsed.tasks) {
-      const categoryId = categoryByName.get(t.category);
-      if (!categoryId) continue;
-
-      // Match Pool item by title (if not marked as "I wonder...")
-      let matchedPoolItem: PoolItem | null = null;
-      if (!t.is_i_wonder) {
-        const titleKey = t.title.toLowerCase().trim();
-        matchedPoolItem = poolItemsByTitle.get(titleKey) || null;
-        
-        // Also try matching by pool_item_id if LLM provided it
-        if (!matchedPoolItem && t.pool_item_id) {
-          const byId = [...ctx.poolItems.tasks, ...ctx.poolItems.aspirations].find(
-            (item) => item.id === t.pool_item_id
-          );
-          if (byId) matchedPoolItem = byId;
-        }
+  return { drafts, adjustments };
+}
+
+/**
+ * Generate and save the plan for a date in two phases:
+ * 1. Gather context and ask the LLM (or fallback planner) — no transaction open,
+ *    so a long inference never holds SQLite's write lock.
+ * 2. Re-check and commit plan, tasks and Pool use tracking in one short transaction.
+ */
+export async function generatePlan(
+  forDate: Date,
+  options: GeneratePlanOptions = {}
+): Promise<GeneratePlanResult> {
+  return withGenerationLock(forDate, () => runGeneration(forDate, options));
+}
+
+async function runGeneration(forDate: Date, options: GeneratePlanOptions): Promise<GeneratePlanResult> {
+  const { onProgress, signal } = options;
+  const dateKey = toDateStr(forDate);
+  const runId = randomUUID();
+  const attempts: AttemptRecord[] = [];
+
+  try {
+    // Phase 1: context + plan content (slow; outside any transaction)
+    onProgress?.({ type: 'phase', phase: 'gathering_context', message: 'Looking over journals, feedback and the Pool' });
+    const ctx = await gatherContext(forDate);
+    signal?.throwIfAborted();
+
+    const { parsed, source, offlineReason } = await planContent(ctx, forDate, attempts, options);
+    signal?.throwIfAborted();
+
+    const { drafts, adjustments } = draftTasks(ctx, parsed, forDate);
+    const mentalStateSummary = [parsed.capacity_notes, parsed.mental_state_notes]
+      .filter(Boolean)
+      .join(' ');
+
+    // Phase 2: validate against current data and commit atomically
+    onProgress?.({ type: 'phase', phase: 'saving', message: 'Saving your plan' });
+    return await prisma.$transaction(async (tx) => {
+      const existing = await planService.findByDate(forDate, tx);
+      if (existing && !options.replace) {
+        throw new PlanConflictError(`A plan for ${dateKey} was created while this one was being generated`, existing.id);
       }
 
-      const scheduledTime = t.time ? timeToDate(dateStr, t.time) : undefined;
+      // Pool items may have been deleted during inference; keep the task, drop the link
+      const poolIds = [...new Set(drafts.map((d) => d.poolItemId).filter((id): id is string => !!id))];
+      const stillThere = new Set(
+        (await tx.poolItem.findMany({ where: { id: { in: poolIds } }, select: { id: true } })).map((p) => p.id)
+      );
 
-      await tx.task.create({
+      const revision = await planService.nextRevision(forDate, tx);
+      const plan = await tx.dailyPlan.create({
         data: {
-          dailyPlanId: plan.id,
-          categoryId,
-          poolItemId: matchedPoolItem?.id || null,
-          title: t.title,
-          description: t.description,
-          scheduledTime,
-          durationMinutes: t.duration_minutes ?? undefined,
-          priority: t.priority ?? 3,
+          date: forDate,
+          revision,
+          capacityScore: ctx.capacityScore,
+          mentalStateSummary: mentalStateSummary || undefined,
+          source,
         },
       });
 
-      // Track Pool items that were used
-      if (matchedPoolItem) {
-        poolItemIdsToMark.push(matchedPoolItem.id);
+      // Work already done or underway on the previous revision comes along as-is
+      const carried =
+        existing && options.carryOver !== false
+          ? await tx.task.findMany({ where: { dailyPlanId: existing.id, status: { in: CARRY_OVER_STATUSES } } })
+          : [];
+      for (const task of carried) {
+        const { id, dailyPlanId, createdAt, updatedAt, ...rest } = task;
+        const copy = await tx.task.create({ data: { ...rest, dailyPlanId: plan.id } });
+        // Its completion record comes too, so durations stay with the active revision
+        const history = await tx.completionHistory.findMany({ where: { taskId: id } });
+        for (const { id: historyId, taskId, ...entry } of history) {
+          await tx.completionHistory.create({ data: { ...entry, taskId: copy.id } });
+        }
+      }
+      const carriedPoolIds = new Set(carried.map((t) => t.poolItemId).filter(Boolean));
+      const carriedTitles = new Set(carried.map((t) => t.title.toLowerCase().trim()));
+
+      let taskCount = carried.length;
+      for (const draft of drafts) {
+        if (
+          (draft.poolItemId && carriedPoolIds.has(draft.poolItemId)) ||
+          carriedTitles.has(draft.title.toLowerCase().trim())
+        ) {
+          continue; // Already on the plan via carry-over
+        }
+        const poolItemId = draft.poolItemId && stillThere.has(draft.poolItemId) ? draft.poolItemId : null;
+        await tx.task.create({
+          data: { ...draft, dailyPlanId: plan.id, poolItemId },
+        });
+        taskCount++;
       }
-    }
 
-    // 6. Auto-place events as tasks
-    for (const { poolItem, scheduledTime } of eventsToPlace) {
-      const categoryId = poolItem.categoryId || ctx.categories[0]?.id; // Fallback to first category if none
-      if (!categoryId) continue;
+      if (existing) {
+        await planService.supersede(tx, existing.id, plan.id);
+      }
+      // Pool use tracking follows the active revision (same transaction)
+      await poolService.syncUsage(tx, existing?.id ?? null, plan.id);
 
-      await tx.task.create({
-        data: {
-          dailyPlanId: plan.id,
-          categoryId,
-          poolItemId: poolItem.id,
-          title: poolItem.title,
-          description: poolItem.notes,
-          scheduledTime,
-          priority: 1, // Events get high priority (early in order)
-        },
-      });
-      poolItemIdsToMark.push(poolItem.id);
-    }
+      await saveAttempts(tx, { runId, planDate: forDate, dailyPlanId: plan.id }, attempts);
 
-    // 7. Update Pool items: mark as used (same transaction)
-    if (poolItemIdsToMark.length > 0) {
-      await tx.poolItem.updateMany({
-        where: {
-          id: { in: poolItemIdsToMark },
-        },
-        data: {
-          lastUsedAt: forDate,
-          useCount: { increment: 1 },
-        },
-      });
+      return { planId: plan.id, taskCount, source, offlineReason, revision, carriedOverCount: carried.length, adjustments };
+    });
+  } catch (error: any) {
+    // Keep the attempts of a failed run so the failure can be diagnosed
+    if (attempts.length > 0) {
+      await saveAttempts(prisma, { runId, planDate: forDate }, attempts).catch((logError) =>
+        console.error('Could not record generation attempts:', logError.message)
+      );
     }
-
-    const totalTasks = parsed.tasks.filter((t) => categoryByName.has(t.category)).length + eventsToPlace.length;
-    return { planId: plan.id, taskCount: totalTasks };
-  });
+    // Same date + revision saved by a writer outside this process (e.g. the MCP server)
+    if (error?.code === 'P2002') {
+      throw new PlanConflictError(`A plan for ${dateKey} already exists`);
+    }
+    throw error;
+  }
 }
@@ -0,0 +1,109 @@
+/**
+ * Pool Lifecycle: moves Pool items along once their time has passed.
+ * - runPoolLifecycle (background job): completes one-off events whose day is
+ *   over and recurring events whose series has ended, and resumes paused
+ *   items whose resumeOn day has come
+ * - completionOfferFor / completeFromTask: when a task made from a Pool task
+ *   is completed, offer to mark that Pool item completed too (never automatic;
+ *   the user may want to do it again)
+ *
+ * Every change is recorded as a PoolTransition.
+ */
+
+import { PoolItem, Task } from '@prisma/client';
+import prisma from '../lib/prisma.js';
+import { startOfDay, todayStr, toDateStr } from '../lib/dates.js';
+import { parseRRule, seriesEnded } from '../lib/recurrence.js';
+import { PoolService } from './poolService.js';
+
+const poolService = new PoolService();
+
+export interface LifecycleResult {
+  eventsCompleted: number;
+  resumed: number;
+}
+
+export interface CompletionOffer {
+  poolItemId: string;
+  title: string;
+  message: string;
+}
+
+/** Why an event is over as of `today` (YYYY-MM-DD), or null while it has days ahead */
+export function eventOverReason(
+  event: Pick<PoolItem, 'scheduledAt' | 'scheduledEnd' | 'recurrenceRule'>,
+  today: string
+): 'event_past' | 'series_ended' | null {
+  if (!event.scheduledAt) return null;
+  if (event.recurrenceRule) {
+    return seriesEnded(parseRRule(event.recurrenceRule), toDateStr(event.scheduledAt), today) ? 'series_ended' : null;
+  }
+  // Past days only, so today's plan can still be regenerated around it
+  return (event.scheduledEnd ?? event.scheduledAt) < startOfDay(today) ? 'event_past' : null;
+}
+
+/** One pass of the lifecycle rules as of `now` */
+export async function runPoolLifecycle(now: Date = new Date()): Promise<LifecycleResult> {
+  const today = todayStr(now);
+  const todayStart = startOfDay(today);
+  const result: LifecycleResult = { eventsCompleted: 0, resumed: 0 };
+
+  const events = await prisma.poolItem.findMany({
+    where: { type: 'event', status: 'active', scheduledAt: { not: null } },
+  });
+  for (const event of events) {
+    let reason: 'event_past' | 'series_ended' | null = null;
+    try {
+      reason = eventOverReason(event, today);
+    } catch (error: any) {
+      console.error(`Pool lifecycle: bad recurrence on "${event.title}":`, error.message);
+    }
+    if (reason) {
+      await prisma.$transaction((tx) => poolService.setStatus(tx, event, 'completed', reason!));
+      result.eventsCompleted++;
+    }
+  }
+
+  const due = await prisma.poolItem.findMany({
+    where: { status: 'paused', resumeOn: { lte: todayStart } },
+  });
+  for (const item of due) {
+    await prisma.$transaction((tx) => poolService.setStatus(tx, item, 'active', 'resumed'));
+    result.resumed++;
+  }
+
+  if (result.eventsCompleted > 0 || result.resumed > 0) {
+    console.log(`Pool lifecycle: ${result.eventsCompleted} event(s) completed, ${result.resumed} item(s) resumed`);
+  }
+  return result;
+}
+
+/** For a just-completed task: an offer to complete its Pool task, if it still is one */
+export async function completionOfferFor(task: Pick<Task, 'status' | 'poolItemId'>): Promise<CompletionOffer | null> {
+  if (task.status !== 'completed' || !task.poolItemId) return null;
+  const item = await prisma.poolItem.findUnique({ where: { id: task.poolItemId } });
+  // Aspirations are open-ended and events finish on their own
+  if (!item || item.type !== 'task' || item.status !== 'active') return null;
+  return {
+    poolItemId: item.id,
+    title: item.title,
+    message: `Done with "${item.title}" for good? It can be marked finished in the Pool.`,
+  };
+}
+
+/** Accept the offer: complete the Pool item, noting the task that finished it */
+export async function completeFromTask(poolItemId: string, taskId?: string): Promise<void> {
+  const item = await prisma.poolItem.findUnique({ where: { id: poolItemId } });
+  if (!item) {
+    throw new Error('Pool item not found');
+  }
+  if (taskId) {
+    const task = await prisma.task.findUnique({ where: { id: taskId } });
+    if (!task || task.poolItemId !== poolItemId) {
+      throw new Error('That task is not linked to this Pool item');
+    }
+  }
+  await prisma.$transaction((tx) =>
+    poolService.setStatus(tx, item, 'completed', taskId ? 'task_completed' : 'manual', taskId)
+  );
+}
@@ -1,5 +1,7 @@
 import prisma from '../lib/prisma.js';
-import { PoolItem } from '@prisma/client';
+import { addDays, dayRange, formatClock, parsePlanDate, startOfDay, toDateStr, zonedTimeToUtc } from '../lib/dates.js';
+import { formatRRule, occurrencesBetween, occursOn, parseRRule } from '../lib/recurrence.js';
+import { Category, PoolItem, PoolOccurrence, Prisma } from '@prisma/client';
 
 export interface CreatePoolItemInput {
   type: 'task' | 'event' | 'aspiration';
@@ -8,7 +10,10 @@ export interface CreatePoolItemInput {
   categoryId?: string;
   scheduledAt?: Date; // Events only
   scheduledEnd?: Date; // Events only
+  recurrenceRule?: string; // Events only: RRULE, see lib/recurrence.ts
   cooldownDays?: number; // Optional override
+  maxUses?: number; // Optional cap: at most this many uses...
+  maxUsesWindowDays?: number; // ...in any this-many-day window
 }
 
 export interface UpdatePoolItemInput {
@@ -17,8 +22,72 @@ export interface UpdatePoolItemInput {
   categoryId?: string;
   scheduledAt?: Date;
   scheduledEnd?: Date;
+  recurrenceRule?: string | null; // null stops the event repeating
   status?: 'active' | 'paused' | 'completed';
+  resumeOn?: string | null; // YYYY-MM-DD; paused items go back to active that day
   cooldownDays?: number;
+  maxUses?: number | null; // null (with maxUsesWindowDays null) falls back to the type's cap
+  maxUsesWindowDays?: number | null;
+}
+
+export interface OccurrenceInput {
+  status?: 'scheduled' | 'skipped';
+  scheduledAt?: Date | null; // Move this day's occurrence
+  scheduledEnd?: Date | null;
+  notes?: string | null;
+}
+
+/** One day of a recurring event, with any skip or override applied */
+export interface EventOccurrence {
+  date: string; // YYYY-MM-DD
+  status: 'scheduled' | 'skipped';
+  scheduledAt: Date;
+  scheduledEnd: Date | null;
+  notes: string | null;
+  overridden: boolean;
+}
+
+export type PoolStatus = 'active' | 'paused' | 'completed';
+export type TransitionReason =
+  | 'manual'
+  | 'event_past'
+  | 'series_ended'
+  | 'task_completed'
+  | 'resumed'
+  | 'calendar_cancelled'
+  | 'calendar_restored'
+  | 'revived';
+
+/** Pool items as returned for planning: with their category */
+export type PoolItemWithCategory = PoolItem & { category: Category | null };
+
+/** Validate and normalise an RRULE for an event */
+function normaliseRecurrence(rule: string | null | undefined, type: string, scheduledAt: Date | null | undefined): string | null {
+  if (!rule) return null;
+  if (type !== 'event') {
+    throw new Error('Only events can have a recurrence rule');
+  }
+  if (!scheduledAt) {
+    throw new Error('A recurring event needs scheduled_at (its first occurrence)');
+  }
+  return formatRRule(parseRRule(rule));
+}
+
+/**
+ * The event as it happens on `dateStr`: same wall-clock time and length as
+ * the series, unless the day's override moves or annotates it.
+ */
+function occurrenceOf(item: PoolItem, dateStr: string, override?: PoolOccurrence): EventOccurrence {
+  const start = zonedTimeToUtc(dateStr, formatClock(new Date(item.scheduledAt!)));
+  const length = item.scheduledEnd ? new Date(item.scheduledEnd).getTime() - new Date(item.scheduledAt!).getTime() : null;
+  return {
+    date: dateStr,
+    status: override?.status === 'skipped' ? 'skipped' : 'scheduled',
+    scheduledAt: override?.scheduledAt ?? start,
+    scheduledEnd: override?.scheduledEnd ?? (length !== null ? new Date((override?.scheduledAt ?? start).getTime() + length) : null),
+    notes: override?.notes ?? item.notes,
+    overridden: !!override,
+  };
 }
 
 // Global cooldown defaults (MVP)
@@ -28,12 +97,64 @@ const GLOBAL_COOLDOWN_DAYS = {
   event: 0, // Events ignore cooldown
 };
 
+/** "At most maxUses plans in any windowDays-day window" */
+export interface UseCap {
+  maxUses: number;
+  windowDays: number;
+}
+
+/** A task or aspiration that can't be planned on a date, and why */
+export interface UnavailableItem {
+  item: PoolItem;
+  reasons: string[];
+  availableFrom?: string; // YYYY-MM-DD when cooldown/caps next allow it (omitted if status or category keep it out)
+}
+
+export interface AvailablePoolItems {
+  tasks: PoolItemWithCategory[];
+  aspirations: PoolItemWithCategory[];
+  events: PoolItemWithCategory[];
+  unavailable: UnavailableItem[];
+}
+
+/** "2/7" → at most 2 uses per 7 days */
+function parseCap(value: string | undefined): UseCap | null {
+  const match = value?.trim().match(/^(\d+)\s*\/\s*(\d+)$/);
+  if (!match || Number(match[1]) < 1 || Number(match[2]) < 1) return null;
+  return { maxUses: Number(match[1]), windowDays: Number(match[2]) };
+}
+
+// Type-wide caps (POOL_CAP_TASK / POOL_CAP_ASPIRATION, e.g. "2/7"); an item's own cap replaces these
+const GLOBAL_USE_CAPS: Record<'task' | 'aspiration', UseCap | null> = {
+  task: parseCap(process.env.POOL_CAP_TASK),
+  aspiration: parseCap(process.env.POOL_CAP_ASPIRATION),
+};
+
+function capFor(item: PoolItem): UseCap | null {
+  if (item.maxUses && item.maxUsesWindowDays) {
+    return { maxUses: item.maxUses, windowDays: item.maxUsesWindowDays };
+  }
+  return GLOBAL_USE_CAPS[item.type as 'task' | 'aspiration'] ?? null;
+}
+
+function validateCap(maxUses: number | null | undefined, windowDays: number | null | undefined): void {
+  if ((maxUses == null) !== (windowDays == null)) {
+    throw new Error('maxUses and maxUsesWindowDays go together');
+  }
+  for (const value of [maxUses, windowDays]) {
+    if (value != null && (!Number.isInteger(value) || value < 1)) {
+      throw new Error('maxUses and maxUsesWindowDays must be positive whole numbers');
+    }
+  }
+}
+
 export class PoolService {
   async create(data: CreatePoolItemInput): Promise<PoolItem> {
     // Enforce: only events can have scheduledAt/scheduledEnd
     if (data.type !== 'event' && (data.scheduledAt || data.scheduledEnd)) {
       throw new Error('Only events can have scheduled_at or scheduled_end');
     }
+    validateCap(data.maxUses, data.maxUsesWindowDays);
 
     return prisma.poolItem.create({
       data: {
@@ -43,8 +164,11 @@ export class PoolService {
         categoryId: data.categoryId || null,
         scheduledAt: data.type === 'event' ? data.scheduledAt || null : null,
         scheduledEnd: data.type === 'event' ? data.scheduledEnd || null : null,
+        recurrenceRule: normaliseRecurrence(data.recurrenceRule, data.type, data.scheduledAt),
         status: 'active',
         cooldownDays: data.cooldownDays || null,
+        maxUses: data.maxUses ?? null,
+        maxUsesWindowDays: data.maxUsesWindowDays ?? null,
       },
       include: {
         category: true,
@@ -91,19 +215,112 @@ export class PoolService {
       throw new Error('Only events can have scheduled_at or scheduled_end');
     }
 
+    if (data.maxUses !== undefined || data.maxUsesWindowDays !== undefined) {
+      validateCap(
+        data.maxUses !== undefined ? data.maxUses : item.maxUses,
+        data.maxUsesWindowDays !== undefined ? data.maxUsesWindowDays : item.maxUsesWindowDays
+      );
+    }
+
     const updateData: any = { ...data };
     if (item.type !== 'event') {
       updateData.scheduledAt = null;
       updateData.scheduledEnd = null;
     }
 
-    return prisma.poolItem.update({
-      where: { id },
-      data: updateData,
-      include: {
-        category: true,
+    // resumeOn only means something while paused
+    const nextStatus = data.status ?? item.status;
+    if (nextStatus !== 'paused') {
+      if (data.resumeOn) throw new Error('resumeOn only applies to paused items');
+      updateData.resumeOn = null;
+    } else if (data.resumeOn !== undefined) {
+      const resumeOn = data.resumeOn ? parsePlanDate(data.resumeOn) : null;
+      if (data.resumeOn && !resumeOn) throw new Error('Invalid resumeOn date');
+      updateData.resumeOn = resumeOn;
+    }
+    if (data.recurrenceRule !== undefined) {
+      updateData.recurrenceRule = normaliseRecurrence(
+        data.recurrenceRule,
+        item.type,
+        data.scheduledAt ?? item.scheduledAt
+      );
+    }
+
+    return prisma.$transaction(async (tx) => {
+      const updated = await tx.poolItem.update({
+        where: { id },
+        data: updateData,
+        include: {
+          category: true,
+        },
+      });
+      if (data.status && data.status !== item.status) {
+        await tx.poolTransition.create({
+          data: { poolItemId: id, fromStatus: item.status, toStatus: data.status, reason: 'manual' },
+        });
+      }
+      return updated;
+    });
+  }
+
+  /**
+   * Move an item to `toStatus` and record why. No-op when it's already
+   * there. Leaving "paused" clears resumeOn.
+   */
+  async setStatus(
+    client: Prisma.TransactionClient,
+    item: { id: string; status: string },
+    toStatus: PoolStatus,
+    reason: TransitionReason,
+    taskId?: string
+  ): Promise<boolean> {
+    if (item.status === toStatus) return false;
+    await client.poolItem.update({
+      where: { id: item.id },
+      data: { status: toStatus, ...(toStatus !== 'paused' ? { resumeOn: null } : {}) },
+    });
+    await client.poolTransition.create({
+      data: { poolItemId: item.id, fromStatus: item.status, toStatus, reason, taskId: taskId ?? null },
+    });
+    return true;
+  }
+
+  /**
+   * Bring a forgotten item back: active again, and featured by the planner
+   * for the next few days (see poolStaleness).
+   */
+  async revive(id: string): Promise<PoolItem> {
+    const item = await prisma.poolItem.findUnique({ where: { id } });
+    if (!item) throw new Error('Pool item not found');
+    if (item.type === 'event') throw new Error('Events are placed by their date and cannot be revived');
+
+    return prisma.$transaction(async (tx) => {
+      await this.setStatus(tx, item, 'active', 'revived');
+      return tx.poolItem.update({
+        where: { id },
+        data: { revivedAt: new Date() },
+        include: { category: true },
+      });
+    });
+  }
+
+  /** Items that reached "completed" in the last `days` days and are still there, newest first */
+  async findRecentlyFinished(days: number = 14): Promise<(PoolItem & { finishedAt: Date; reason: string })[]> {
+    const transitions = await prisma.poolTransition.findMany({
+      where: {
+        toStatus: 'completed',
+        createdAt: { gte: new Date(Date.now() - days * 24 * 60 * 60 * 1000) },
+        poolItem: { status: 'completed' },
       },
+      include: { poolItem: { include: { category: true } } },
+      orderBy: { createdAt: 'desc' },
     });
+    // Latest completion per item
+    const latest = new Map<string, (typeof transitions)[number]>();
+    for (const t of transitions) {
+      if (!latest.has(t.poolItemId)) latest.set(t.poolItemId, t);
+    }
+    return [...latest.values()].map((t) => ({ ...t.poolItem, finishedAt: t.createdAt, reason: t.reason }));
   }
 
   async delete(id: string): Promise<void> {
@@ -114,81 +331,288 @@ export class PoolService {
 
   /**
    * Get active Pool items available for planning on a given date.
-   * Respects cooldown (global defaults or item override).
-   * Events are included if their scheduledAt matches the date.
+   * Respects cooldown (global defaults or item override) and use caps (item
+   * or type), counting uses from tasks on active plans before the date.
+   * Tasks and aspirations that are left out come back in `unavailable`.
+   * Events are included if their scheduledAt matches the date; recurring
+   * events are included for each day their rule occurs (not skipped), with
+   * scheduledAt/scheduledEnd set to that day's occurrence.
    */
-  async getAvailableForDate(forDate: Date): Promise<{
-    tasks: PoolItem[];
-    aspirations: PoolItem[];
-    events: PoolItem[];
-  }> {
-    const dateStr = forDate.toISOString().split('T')[0];
-    const startOfDay = new Date(dateStr);
-    startOfDay.setHours(0, 0, 0, 0);
-    const endOfDay = new Date(startOfDay);
-    endOfDay.setHours(23, 59, 59, 999);
-
-    // Get all active items
-    const allActive = await prisma.poolItem.findMany({
+  async getAvailableForDate(forDate: Date): Promise<AvailablePoolItems> {
+    const { gte: dayStart, lt: nextDay } = dayRange(forDate);
+
+    // Get all active events
+    const activeEvents = await prisma.poolItem.findMany({
       where: {
         status: 'active',
+        type: 'event',
       },
       include: {
         category: true,
       },
     });
 
-    // Separate by type
-    const events = allActive.filter((item) => {
-      if (item.type !== 'event') return false;
-      if (!item.scheduledAt) return false;
+    const events: PoolItemWithCategory[] = activeEvents.filter((item) => {
+      if (!item.scheduledAt || item.recurrenceRule) return false;
       const eventDate = new Date(item.scheduledAt);
-      return eventDate >= startOfDay && eventDate <= endOfDay;
+      return eventDate >= dayStart && eventDate < nextDay;
     });
 
-    const tasksAndAspirations = allActive.filter(
-      (item) => item.type === 'task' || item.type === 'aspiration'
-    );
+    const dateStr = toDateStr(forDate);
+    const recurring = activeEvents.filter((item) => {
+      if (!item.scheduledAt || !item.recurrenceRule) return false;
+      try {
+        return occursOn(parseRRule(item.recurrenceRule), toDateStr(new Date(item.scheduledAt)), dateStr);
+      } catch (error: any) {
+        // One bad rule shouldn't keep the day from being planned
+        console.error(`Pool: skipping recurring event "${item.title}":`, error.message);
+        return false;
+      }
+    });
+    if (recurring.length > 0) {
+      const overrides = await prisma.poolOccurrence.findMany({
+        where: { poolItemId: { in: recurring.map((item) => item.id) }, date: dayStart },
+      });
+      for (const item of recurring) {
+        const occurrence = occurrenceOf(item, dateStr, overrides.find((o) => o.poolItemId === item.id));
+        if (occurrence.status === 'skipped') continue;
+        events.push({
+          ...item,
+          scheduledAt: occurrence.scheduledAt,
+          scheduledEnd: occurrence.scheduledEnd,
+          notes: occurrence.notes,
+        });
+      }
+    }
+
+    // Tasks and aspirations in any status, so the ones left out can be explained
+    const candidates = await prisma.poolItem.findMany({
+      where: { type: { in: ['task', 'aspiration'] } },
+      include: { category: true },
+      orderBy: { createdAt: 'asc' },
+    });
+    const usesByItem = await this.usesBefore(candidates, dateStr);
 
-    // Filter by cooldown
-    const available: PoolItem[] = [];
-    for (const item of tasksAndAspirations) {
-      const cooldownDays =
-        item.cooldownDays ?? GLOBAL_COOLDOWN_DAYS[item.type as 'task' | 'aspiration'];
+    const available: PoolItemWithCategory[] = [];
+    const unavailable: UnavailableItem[] = [];
+    for (const item of candidates) {
+      const reasons: string[] = [];
+      let availableFrom: string | undefined;
+      const later = (d: string) => {
+        if (!availableFrom || d > availableFrom) availableFrom = d;
+      };
 
-      if (!item.lastUsedAt) {
-        // Never used - available
-        available.push(item);
-      } else {
+      if (item.status !== 'active') {
+        reasons.push(`Status is ${item.status}`);
+      }
+      // Items in archived categories sit out of planning (events still happen)
+      if (item.category?.archivedAt) {
+        reasons.push(`Category "${item.category.name}" is archived`);
+      }
+
+      const cooldownDays = item.cooldownDays ?? GLOBAL_COOLDOWN_DAYS[item.type as 'task' | 'aspiration'];
+      if (item.lastUsedAt) {
         const daysSinceUsed = Math.floor(
           (forDate.getTime() - new Date(item.lastUsedAt).getTime()) / (1000 * 60 * 60 * 24)
         );
-        if (daysSinceUsed >= cooldownDays) {
-          available.push(item);
+        if (daysSinceUsed < cooldownDays) {
+          const lastUsed = toDateStr(new Date(item.lastUsedAt));
+          const from = addDays(lastUsed, cooldownDays);
+          reasons.push(`Cooling down: last used ${lastUsed}, cooldown ${cooldownDays} day(s)`);
+          later(from);
+        }
+      }
+
+      const cap = capFor(item);
+      if (cap) {
+        const since = addDays(dateStr, -(cap.windowDays - 1));
+        const uses = (usesByItem.get(item.id) ?? []).filter((d) => d >= since);
+        if (uses.length >= cap.maxUses) {
+          // A slot opens once enough of these uses fall out of the window
+          const from = addDays(uses[uses.length - cap.maxUses], cap.windowDays);
+          reasons.push(`Used ${uses.length} time(s) in the last ${cap.windowDays} days (at most ${cap.maxUses})`);
+          later(from);
         }
       }
+
+      if (reasons.length === 0) {
+        available.push(item);
+      } else {
+        const blockedOnlyByTime = item.status === 'active' && !item.category?.archivedAt;
+        unavailable.push({ item, reasons, ...(blockedOnlyByTime ? { availableFrom } : {}) });
+      }
     }
 
     return {
       tasks: available.filter((item) => item.type === 'task'),
       aspirations: available.filter((item) => item.type === 'aspiration'),
       events,
+      unavailable,
     };
   }
 
+  /** Explain one item's availability on a date */
+  async explainAvailability(id: string, forDate: Date): Promise<{ available: boolean } & Omit<UnavailableItem, 'item'>> {
+    const item = await prisma.poolItem.findUnique({ where: { id } });
+    if (!item) throw new Error('Pool item not found');
+    if (item.type === 'event') {
+      throw new Error('Events are placed by their date, not by availability');
+    }
+    const { unavailable } = await this.getAvailableForDate(forDate);
+    const entry = unavailable.find((u) => u.item.id === id);
+    return entry
+      ? { available: false, reasons: entry.reasons, availableFrom: entry.availableFrom }
+      : { available: true, reasons: [] };
+  }
+
   /**
-   * Update last_used_at and use_count for Pool items that were used in a plan.
-   * Called as part of plan creation transaction.
+   * Days (YYYY-MM-DD, oldest first, one per plan) each capped item appeared
+   * on an active plan within its window, before `dateStr`.
    */
-  async markUsed(poolItemIds: string[], usedDate: Date): Promise<void> {
-    await prisma.poolItem.updateMany({
+  private async usesBefore(items: PoolItem[], dateStr: string): Promise<Map<string, string[]>> {
+    const capped = items.map((item) => ({ item, cap: capFor(item) })).filter((c) => c.cap);
+    const uses = new Map<string, string[]>();
+    if (capped.length === 0) return uses;
+
+    const longest = Math.max(...capped.map((c) => c.cap!.windowDays));
+    const tasks = await prisma.task.findMany({
       where: {
-        id: { in: poolItemIds },
-      },
-      data: {
-        lastUsedAt: usedDate,
-        useCount: { increment: 1 },
+        poolItemId: { in: capped.map((c) => c.item.id) },
+        releasedAt: null,
+        dailyPlan: {
+          status: 'active',
+          date: { gte: startOfDay(addDays(dateStr, -(longest - 1))), lt: startOfDay(dateStr) },
+        },
       },
+      select: { poolItemId: true, dailyPlan: { select: { date: true } } },
     });
+    for (const task of tasks) {
+      const days = uses.get(task.poolItemId!) ?? [];
+      days.push(toDateStr(task.dailyPlan.date));
+      uses.set(task.poolItemId!, days);
+    }
+    for (const [id, days] of uses) {
+      uses.set(id, [...new Set(days)].sort());
+    }
+    return uses;
+  }
+
+  /** Occurrences of a recurring event from `fromStr` to `toStr` (YYYY-MM-DD), skipped ones included */
+  async listOccurrences(id: string, fromStr: string, toStr: string): Promise<EventOccurrence[]> {
+    const item = await this.findRecurringEvent(id);
+    const days = occurrencesBetween(parseRRule(item.recurrenceRule!), toDateStr(new Date(item.scheduledAt!)), fromStr, toStr);
+    if (days.length === 0) return [];
+    const overrides = await prisma.poolOccurrence.findMany({
+      where: { poolItemId: id, date: { gte: startOfDay(fromStr), lte: startOfDay(toStr) } },
+    });
+    const byDay = new Map(overrides.map((o) => [toDateStr(o.date), o]));
+    return days.map((d) => occurrenceOf(item, d, byDay.get(d)));
+  }
+
+  /** Skip, move or annotate one day's occurrence */
+  async setOccurrence(id: string, dateStr: string, data: OccurrenceInput): Promise<EventOccurrence> {
+    const item = await this.findRecurringEvent(id);
+    if (!occursOn(parseRRule(item.recurrenceRule!), toDateStr(new Date(item.scheduledAt!)), dateStr)) {
+      throw new Error(`"${item.title}" doesn't occur on ${dateStr}`);
+    }
+    if (data.status && !['scheduled', 'skipped'].includes(data.status)) {
+      throw new Error('status must be scheduled or skipped');
+    }
+    for (const time of [data.scheduledAt, data.scheduledEnd]) {
+      if (time && toDateStr(new Date(time)) !== dateStr) {
+        throw new Error(`An occurrence can only be moved within ${dateStr}`);
+      }
+    }
+
+    const date = startOfDay(dateStr);
+    const fields = {
+      status: data.status,
+      scheduledAt: data.scheduledAt,
+      scheduledEnd: data.scheduledEnd,
+      notes: data.notes,
+    };
+    const saved = await prisma.poolOccurrence.upsert({
+      where: { poolItemId_date: { poolItemId: id, date } },
+      create: { poolItemId: id, date, ...fields },
+      update: fields,
+    });
+    return occurrenceOf(item, dateStr, saved);
+  }
+
+  /** Put one day back to what the rule says */
+  async clearOccurrence(id: string, dateStr: string): Promise<void> {
+    await prisma.poolOccurrence.deleteMany({
+      where: { poolItemId: id, date: startOfDay(dateStr) },
+    });
+  }
+
+  private async findRecurringEvent(id: string): Promise<PoolItem> {
+    const item = await prisma.poolItem.findUnique({ where: { id } });
+    if (!item) throw new Error('Pool item not found');
+    if (item.type !== 'event' || !item.recurrenceRule || !item.scheduledAt) {
+      throw new Error('Pool item is not a recurring event');
+    }
+    return item;
+  }
+
+  /**
+   * Bring use tracking in line after the active plan for a date switches from
+   * `previousPlanId` (null for a first plan) to `nextPlanId`: items only in the
+   * new plan gain a use, items only in the old one give theirs back, and
+   * last_used_at is the latest active plan that still includes the item.
+   */
+  async syncUsage(
+    client: Prisma.TransactionClient,
+    previousPlanId: string | null,
+    nextPlanId: string
+  ): Promise<void> {
+    const poolIdsIn = async (planId: string | null) => {
+      if (!planId) return new Set<string>();
+      const tasks = await client.task.findMany({
+        where: { dailyPlanId: planId, poolItemId: { not: null }, releasedAt: null },
+        select: { poolItemId: true },
+      });
+      return new Set(tasks.map((t) => t.poolItemId!));
+    };
+    const before = await poolIdsIn(previousPlanId);
+    const after = await poolIdsIn(nextPlanId);
+    await this.adjustUsage(
+      client,
+      [...after].filter((id) => !before.has(id)),
+      [...before].filter((id) => !after.has(id))
+    );
+  }
+
+  /**
+   * Give `added` items a use and take one back from `dropped` items, then
+   * reset last_used_at to the latest active plan that still includes each
+   * (released tasks, left untouched when their day ended, don't count).
+   * Call after the task rows have changed.
+   */
+  async adjustUsage(client: Prisma.TransactionClient, added: string[], dropped: string[]): Promise<void> {
+    if (added.length > 0) {
+      await client.poolItem.updateMany({
+        where: { id: { in: added } },
+        data: { useCount: { increment: 1 } },
+      });
+    }
+    if (dropped.length > 0) {
+      await client.poolItem.updateMany({
+        where: { id: { in: dropped }, useCount: { gt: 0 } },
+        data: { useCount: { decrement: 1 } },
+      });
+    }
+
+    for (const id of [...added, ...dropped]) {
+      const latest = await client.task.findFirst({
+        where: { poolItemId: id, releasedAt: null, dailyPlan: { status: 'active' } },
+        orderBy: { dailyPlan: { date: 'desc' } },
+        select: { dailyPlan: { select: { date: true } } },
+      });
+      await client.poolItem.update({
+        where: { id },
+        data: { lastUsedAt: latest?.dailyPlan.date ?? null },
+      });
+    }
   }
 }
@@ -0,0 +1,116 @@
+/**
+ * Pool Staleness: how long an item has been waiting for its turn.
+ *
+ * The score (0–1) blends time since last use (or since it was added), how
+ * rarely it has been used, how old it is, and whether its category has come
+ * up less than its share lately. The planner lists items by score and points
+ * out the "forgotten" ones; the Pool view lists forgotten aspirations so the
+ * user can pause, rewrite or revive them.
+ */
+
+import { PoolItem } from '@prisma/client';
+import prisma from '../lib/prisma.js';
+import { addDays, startOfDay, todayStr, toDateStr } from '../lib/dates.js';
+
+export interface StalenessScore {
+  score: number;
+  waitingDays: number; // Since last use, or since it was added if never used
+  reasons: string[];
+  forgotten: boolean;
+}
+
+export interface ForgottenItem extends StalenessScore {
+  item: PoolItem;
+}
+
+// Weights (sum to 1)
+const WAITING_WEIGHT = 0.45;
+const RARITY_WEIGHT = 0.2;
+const AGE_WEIGHT = 0.15;
+const BALANCE_WEIGHT = 0.2;
+
+const WAITING_DAYS_CAP = 60;
+const AGE_DAYS_CAP = 90;
+// At or above this an item counts as forgotten
+export const FORGOTTEN_THRESHOLD = 0.6;
+// A revived item stays at the top for this long, unless it gets used first
+const REVIVE_DAYS = 7;
+// Category balance looks at this many days of plans
+const BALANCE_LOOKBACK_DAYS = 30;
+
+function daysBetween(from: Date, to: Date): number {
+  return Math.max(0, Math.floor((to.getTime() - new Date(from).getTime()) / (1000 * 60 * 60 * 24)));
+}
+
+/**
+ * Score one item as of `planDate`. `categoryTasks` counts recent tasks per
+ * category id (over every category in play, so zero counts matter).
+ */
+export function scoreStaleness(
+  item: PoolItem & { category?: { name: string } | null },
+  planDate: Date,
+  categoryTasks: Map<string, number>
+): StalenessScore {
+  const reasons: string[] = [];
+  const waitingDays = daysBetween(item.lastUsedAt ?? item.createdAt, planDate);
+  const ageDays = daysBetween(item.createdAt, planDate);
+
+  // Asked to see it again, and it hasn't come up since (last_used_at is a plan's
+  // day, so a plan on the day it was revived counts)
+  const usedSinceRevived = !!item.revivedAt && !!item.lastUsedAt && toDateStr(item.lastUsedAt) >= toDateStr(item.revivedAt);
+  if (item.revivedAt && daysBetween(item.revivedAt, planDate) < REVIVE_DAYS && !usedSinceRevived) {
+    return { score: 1, waitingDays, reasons: ['Revived: you asked to see this again'], forgotten: true };
+  }
+
+  const waiting = Math.min(waitingDays, WAITING_DAYS_CAP) / WAITING_DAYS_CAP;
+  const rarity = 1 / (1 + item.useCount);
+  const age = Math.min(ageDays, AGE_DAYS_CAP) / AGE_DAYS_CAP;
+
+  // Below its even share of recent tasks → up to 1
+  let balance = 0;
+  const total = [...categoryTasks.values()].reduce((sum, n) => sum + n, 0);
+  if (item.categoryId && categoryTasks.size > 0) {
+    const expected = total / categoryTasks.size;
+    const actual = categoryTasks.get(item.categoryId) ?? 0;
+    balance = expected > 0 ? Math.max(0, Math.min(1, 1 - actual / expected)) : 0;
+  }
+
+  const score = WAITING_WEIGHT * waiting + RARITY_WEIGHT * rarity + AGE_WEIGHT * age + BALANCE_WEIGHT * balance;
+
+  if (!item.lastUsedAt) reasons.push(`Never suggested since it was added ${ageDays} day(s) ago`);
+  else if (waitingDays >= 14) reasons.push(`Last suggested ${waitingDays} days ago`);
+  if (item.lastUsedAt && item.useCount <= 1) reasons.push('Used only once');
+  if (balance >= 0.5) reasons.push(`Its area (${item.category?.name ?? 'uncategorized'}) has come up little lately`);
+
+  return { score: Math.round(score * 100) / 100, waitingDays, reasons, forgotten: score >= FORGOTTEN_THRESHOLD };
+}
+
+/** Recent task counts per category, with every enabled, unarchived category present */
+export async function recentCategoryTasks(planDate: Date = new Date()): Promise<Map<string, number>> {
+  const categories = await prisma.category.findMany({ where: { enabled: true, archivedAt: null }, select: { id: true } });
+  const counts = new Map(categories.map((c) => [c.id, 0]));
+  const since = startOfDay(addDays(todayStr(planDate), -BALANCE_LOOKBACK_DAYS));
+  const grouped = await prisma.task.groupBy({
+    by: ['categoryId'],
+    where: { status: { not: 'skipped' }, dailyPlan: { status: 'active', date: { gte: since, lt: planDate } } },
+    _count: { _all: true },
+  });
+  for (const row of grouped) {
+    if (counts.has(row.categoryId)) counts.set(row.categoryId, row._count._all);
+  }
+  return counts;
+}
+
+/** Active aspirations that have waited long enough to count as forgotten, most forgotten first */
+export async function findForgotten(limit: number = 20, now: Date = new Date()): Promise<ForgottenItem[]> {
+  const aspirations = await prisma.poolItem.findMany({
+    where: { type: 'aspiration', status: 'active' },
+    include: { category: true },
+  });
+  const categoryTasks = await recentCategoryTasks(now);
+  return aspirations
+    .map((item) => ({ item, ...scoreStaleness(item, now, categoryTasks) }))
+    .filter((entry) => entry.forgotten)
+    .sort((a, b) => b.score - a.score || b.waitingDays - a.waitingDays)
+    .slice(0, limit);
+}
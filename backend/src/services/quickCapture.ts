@@ -0,0 +1,242 @@
+/**
+ * Quick Capture: free text in, Pool items out, in two steps.
+ * - previewCapture: each line becomes a draft. Dates, times and repeats come
+ *   from the deterministic parser (lib/dateParser.ts); the local LLM picks the
+ *   kind (task, event, aspiration), a clean title and a category. When the LLM
+ *   is unreachable, simple rules decide instead.
+ * - confirmCapture: the (possibly edited) drafts go through PoolService.create.
+ *
+ * Nothing is saved until the user confirms.
+ */
+
+import { Category, PoolItem } from '@prisma/client';
+import { generate } from '../lib/llm.js';
+import { zonedTimeToUtc } from '../lib/dates.js';
+import { describeWhen, parseWhen, ParsedWhen } from '../lib/dateParser.js';
+import { extractJson, matchCategory, MAX_TITLE_LENGTH } from './planOutput.js';
+import { CategoryService } from './categoryService.js';
+import { PoolService } from './poolService.js';
+
+const categoryService = new CategoryService();
+const poolService = new PoolService();
+
+export type CaptureKind = 'task' | 'event' | 'aspiration';
+
+/** One captured line, shaped for PoolService.create once confirmed */
+export interface CaptureDraft {
+  line: string; // The text as written
+  type: CaptureKind;
+  title: string;
+  notes?: string;
+  categoryId: string | null;
+  categoryName: string | null;
+  scheduledAt?: string; // ISO; events only
+  scheduledEnd?: string;
+  recurrenceRule?: string;
+  warnings: string[]; // What the user may want to check before confirming
+}
+
+export interface CapturePreview {
+  drafts: CaptureDraft[];
+  classifiedBy: 'llm' | 'rules';
+}
+
+export interface CaptureResult {
+  created: PoolItem[];
+  errors: { index: number; title: string; error: string }[];
+}
+
+const KINDS: CaptureKind[] = ['task', 'event', 'aspiration'];
+const MAX_LINES = 20;
+// Rules used when the LLM can't classify
+const ASPIRATION_PATTERN = /^(maybe|someday|some day|look into|learn|explore|try|get into|get better at|(i )?(want|would like|'d like) to)\b|\bsomeday\b/i;
+const EVENT_PATTERN = /\b(appointment|appt|meeting|dentist|doctor|class|dinner|lunch|party|flight|interview|concert|game)\b/i;
+
+interface LineClassification {
+  type?: CaptureKind;
+  title?: string;
+  category?: string | null;
+}
+
+/** Lines of the capture, without list bullets or checkboxes */
+function splitLines(text: string): string[] {
+  return text
+    .split(/\r?\n/)
+    .map((line) => line.replace(/^\s*(?:[-*•]|\d+[.)])\s+/, '').replace(/^\[[ xX]?\]\s*/, '').trim())
+    .filter(Boolean);
+}
+
+function buildPrompt(lines: string[], whens: ParsedWhen[], categoryNames: string[]): string {
+  const numbered = lines
+    .map((line, i) => {
+      const when = describeWhen(whens[i]);
+      return `${i + 1}. ${line}${when ? `  (date found: ${when})` : ''}`;
+    })
+    .join('\n');
+
+  return `You sort quick notes into a personal planner's Pool. Each numbered line is one item.
+
+## Kinds
+- task: a concrete thing to do in one sitting, on any day ("renew passport", "clean the gutters")
+- event: happens at a set date or time ("dentist 2pm thursday", "Sam's party saturday")
+- aspiration: an open-ended wish or interest to work toward ("look into improv classes", "get better at chess")
+
+## Known categories
+${categoryNames.join(', ')}
+
+## Lines
+${numbered}
+
+## Your task
+For each line give its kind, a short clean title (without the date or time words), and one of the known categories, or null if none fits.
+Do not invent dates; they are read separately.
+
+Respond with a single JSON object (no other text):
+\`\`\`json
+{
+  "items": [{ "line": 1, "kind": "event", "title": "Dentist", "category": "Health" }]
+}
+\`\`\`
+`;
+}
+
+/** Per-line answers from the LLM, or null if it can't be reached or answers badly */
+async function classifyWithLLM(
+  lines: string[],
+  whens: ParsedWhen[],
+  categories: Category[]
+): Promise<LineClassification[] | null> {
+  let response: string;
+  try {
+    response = await generate({
+      prompt: buildPrompt(lines, whens, categories.map((c) => c.name)),
+      temperature: 0.1,
+      maxTokens: 1024,
+      json: true,
+    });
+  } catch (error: any) {
+    console.error('Quick capture: LLM unavailable, using rules:', error.message);
+    return null;
+  }
+
+  const parsed = extractJson(response) as { items?: unknown } | undefined;
+  if (!parsed || !Array.isArray(parsed.items)) {
+    console.error('Quick capture: LLM answer unreadable, using rules. Raw response:', response.slice(0, 500));
+    return null;
+  }
+  const byLine: LineClassification[] = lines.map(() => ({}));
+  for (const item of parsed.items as unknown[]) {
+    if (!item || typeof item !== 'object') continue;
+    const entry = item as Record<string, unknown>;
+    const index = Number(entry.line) - 1;
+    if (!Number.isInteger(index) || !byLine[index]) continue;
+    byLine[index] = {
+      type: KINDS.includes(entry.kind as CaptureKind) ? (entry.kind as CaptureKind) : undefined,
+      title: typeof entry.title === 'string' ? entry.title.trim() : undefined,
+      category: typeof entry.category === 'string' ? entry.category : null,
+    };
+  }
+  return byLine;
+}
+
+function classifyByRules(line: string, when: ParsedWhen): CaptureKind {
+  if (when.time || when.recurrence) return 'event';
+  if (when.date && EVENT_PATTERN.test(line)) return 'event';
+  if (ASPIRATION_PATTERN.test(line)) return 'aspiration';
+  return 'task';
+}
+
+/** A category named in the line itself ("gym - Exercise"), for the rules path */
+function categoryInLine(line: string, categories: Category[]): Category | null {
+  const lower = line.toLowerCase();
+  return categories.find((c) => new RegExp(`\\b${c.name.toLowerCase().replace(/[.*+?^${}()|[\]\\]/g, '\\$&')}\\b`).test(lower)) ?? null;
+}
+
+function toDraft(line: string, when: ParsedWhen, answer: LineClassification | null, categories: Category[]): CaptureDraft {
+  const warnings: string[] = [];
+  let type = answer?.type ?? classifyByRules(line, when);
+
+  // The parser is trusted over the model on anything to do with time
+  if (type !== 'event' && (when.time || when.recurrence)) {
+    warnings.push('It has a set time, so it was captured as an event');
+    type = 'event';
+  }
+  if (type === 'event' && !when.date) {
+    warnings.push('No date or time found, so it was captured as a task');
+    type = 'task';
+  }
+  if (type !== 'event' && when.date) {
+    warnings.push(`"${when.matched.join(' ')}" was left out: only events have a date`);
+  }
+
+  const category = answer?.category ? matchCategory(answer.category, categories) : answer ? null : categoryInLine(line, categories);
+  if (answer?.category && !category) {
+    warnings.push(`No category called "${answer.category}"; left uncategorized`);
+  }
+
+  const draft: CaptureDraft = {
+    line,
+    type,
+    title: (answer?.title || when.text || line).slice(0, MAX_TITLE_LENGTH),
+    categoryId: category?.id ?? null,
+    categoryName: category?.name ?? null,
+    warnings,
+  };
+
+  if (type === 'event') {
+    draft.scheduledAt = zonedTimeToUtc(when.date!, when.time).toISOString();
+    if (when.endTime) draft.scheduledEnd = zonedTimeToUtc(when.date!, when.endTime).toISOString();
+    if (when.recurrence) draft.recurrenceRule = when.recurrence;
+    if (!when.time) warnings.push('No time given, so it starts at midnight (all day)');
+  }
+  return draft;
+}
+
+/** Read free text (one item per line) into drafts; nothing is saved */
+export async function previewCapture(text: string, options: { offline?: boolean; now?: Date } = {}): Promise<CapturePreview> {
+  const lines = splitLines(text);
+  if (lines.length === 0) {
+    throw new Error('Nothing to capture');
+  }
+  if (lines.length > MAX_LINES) {
+    throw new Error(`Capture at most ${MAX_LINES} lines at a time`);
+  }
+
+  const now = options.now ?? new Date();
+  const categories = await categoryService.findAll(true);
+  const whens = lines.map((line) => parseWhen(line, now));
+  const answers = options.offline ? null : await classifyWithLLM(lines, whens, categories);
+
+  return {
+    drafts: lines.map((line, i) => toDraft(line, whens[i], answers?.[i] ?? null, categories)),
+    classifiedBy: answers ? 'llm' : 'rules',
+  };
+}
+
+/**
+ * Create Pool items from confirmed drafts, in order. A draft that fails
+ * validation is reported and the rest still go in.
+ */
+export async function confirmCapture(drafts: CaptureDraft[]): Promise<CaptureResult> {
+  const result: CaptureResult = { created: [], errors: [] };
+  for (const [index, draft] of drafts.entries()) {
+    try {
+      if (!draft || !KINDS.includes(draft.type) || typeof draft.title !== 'string' || !draft.title.trim()) {
+        throw new Error('Each item needs a type (task, event or aspiration) and a title');
+      }
+      const item = await poolService.create({
+        type: draft.type,
+        title: draft.title.trim(),
+        notes: draft.notes,
+        categoryId: draft.categoryId ?? undefined,
+        scheduledAt: draft.scheduledAt ? new Date(draft.scheduledAt) : undefined,
+        scheduledEnd: draft.scheduledEnd ? new Date(draft.scheduledEnd) : undefined,
+        recurrenceRule: draft.recurrenceRule,
+      });
+      result.created.push(item);
+    } catch (error: any) {
+      result.errors.push({ index, title: draft?.title ?? '', error: error.message });
+    }
+  }
+  return result;
+}
@@ -0,0 +1,296 @@
+/**
+ * Replanner: change part of an existing plan instead of regenerating the day.
+ * - swapTask: replace one invitation with an alternative
+ * - replanRemainder: replan everything after "now", keeping what's done and events
+ *
+ * Both reuse the planning context and LLM/offline pipeline from planningEngine
+ * and keep Pool use tracking in step with the tasks swapped in or out.
+ */
+
+import { randomUUID } from 'crypto';
+import { Task } from '@prisma/client';
+import prisma from '../lib/prisma.js';
+import { dayRange, formatClock } from '../lib/dates.js';
+import { PoolService } from './poolService.js';
+import { AttemptRecord, saveAttempts } from './generationLog.js';
+import {
+  buildPrompt,
+  draftTasks,
+  gatherContext,
+  GeneratePlanOptions,
+  PlanningContext,
+  PlanSource,
+  planContent,
+  TaskDraft,
+  withGenerationLock,
+} from './planningEngine.js';
+
+const poolService = new PoolService();
+
+export interface SwapTaskOptions extends Pick<GeneratePlanOptions, 'offline' | 'signal'> {
+  sameCategory?: boolean; // Alternative must be in the same category
+  sameType?: boolean; // Alternative must be a Pool item of the same type (task/aspiration)
+}
+
+export interface SwapTaskResult {
+  task: Task;
+  replacedTitle: string;
+  source: PlanSource;
+  offlineReason?: string;
+}
+
+export interface ReplanResult {
+  planId: string;
+  keptCount: number;
+  removedCount: number;
+  addedCount: number;
+  adjustments: string[]; // Tasks moved or left out for category preferences
+  source: PlanSource;
+  offlineReason?: string;
+}
+
+// Tasks a replan never touches
+const SETTLED_STATUSES = ['completed', 'in_progress'];
+
+function describeTask(t: { title: string; scheduledTime: Date | null; status: string }, categoryName?: string): string {
+  const time = t.scheduledTime ? ` at ${formatClock(new Date(t.scheduledTime))}` : '';
+  return `- ${categoryName ? `[${categoryName}] ` : ''}${t.title}${time} (${t.status})`;
+}
+
+/** Pool items already on the plan shouldn't be offered again */
+function withoutPoolItems(ctx: PlanningContext, poolItemIds: Set<string>): PlanningContext {
+  return {
+    ...ctx,
+    poolItems: {
+      ...ctx.poolItems,
+      tasks: ctx.poolItems.tasks.filter((item) => !poolItemIds.has(item.id)),
+      aspirations: ctx.poolItems.aspirations.filter((item) => !poolItemIds.has(item.id)),
+    },
+  };
+}
+
+/**
+ * Replace one task with an alternative. The new invitation keeps the old
+ * one's time slot; the swapped-out Pool item gives back its use.
+ */
+export async function swapTask(taskId: string, options: SwapTaskOptions = {}): Promise<SwapTaskResult> {
+  const task = await prisma.task.findUnique({
+    where: { id: taskId },
+    include: { dailyPlan: true, poolItem: true, category: true },
+  });
+  if (!task) {
+    throw new Error('Task not found');
+  }
+  if (task.dailyPlan.status !== 'active') {
+    throw new Error('This task belongs to a superseded plan revision');
+  }
+  if (task.status === 'completed') {
+    throw new Error('Completed tasks cannot be swapped');
+  }
+  if (task.poolItem?.type === 'event') {
+    throw new Error('Events are fixed in time and cannot be swapped');
+  }
+  const type = task.poolItem?.type as 'task' | 'aspiration' | undefined;
+  if (options.sameType && !type) {
+    throw new Error('sameType needs a task that came from the Pool');
+  }
+
+  const planDate = task.dailyPlan.date;
+  return withGenerationLock(planDate, async () => {
+    const planTasks = await prisma.task.findMany({
+      where: { dailyPlanId: task.dailyPlanId },
+      include: { category: true },
+      orderBy: { scheduledTime: 'asc' },
+    });
+    const onPlan = new Set(planTasks.map((t) => t.poolItemId).filter((id): id is string => !!id));
+
+    let ctx = withoutPoolItems(await gatherContext(planDate), onPlan);
+    if (options.sameCategory) {
+      ctx = {
+        ...ctx,
+        categories: ctx.categories.filter((c) => c.id === task.categoryId),
+        poolItems: {
+          ...ctx.poolItems,
+          tasks: ctx.poolItems.tasks.filter((item) => item.categoryId === task.categoryId),
+          aspirations: ctx.poolItems.aspirations.filter((item) => item.categoryId === task.categoryId),
+        },
+      };
+    }
+    if (options.sameType) {
+      ctx = {
+        ...ctx,
+        poolItems: {
+          ...ctx.poolItems,
+          tasks: type === 'task' ? ctx.poolItems.tasks : [],
+          aspirations: type === 'aspiration' ? ctx.poolItems.aspirations : [],
+        },
+      };
+      if (ctx.poolItems.tasks.length + ctx.poolItems.aspirations.length === 0) {
+        throw new Error(`No other ${type} Pool items are available to swap in`);
+      }
+    }
+
+    const constraints = [
+      options.sameCategory ? `It must be in the ${task.category.name} category.` : '',
+      options.sameType ? `It must be one of the Pool ${type}s listed above (not an "I wonder..." idea).` : '',
+    ].filter(Boolean);
+    const prompt = `${buildPrompt(ctx)}
+
+## Swap One Invitation
+Today's plan already has:
+${planTasks.map((t) => describeTask(t, t.category.name)).join('\n')}
+
+The user would like something instead of "${task.title}". Suggest exactly ONE different invitation that fits alongside the rest of the day and doesn't repeat anything above. ${constraints.join(' ')}
+Return the same JSON shape with a single task in "tasks".`;
+
+    const attempts: AttemptRecord[] = [];
+    const { parsed, source, offlineReason } = await planContent(ctx, planDate, attempts, options, prompt);
+
+    // First suggestion that isn't the task being replaced and honours sameType
+    const { drafts } = draftTasks(ctx, parsed, planDate, {
+      includeEvents: false,
+      alreadyPlanned: planTasks.filter((t) => t.id !== task.id).map((t) => t.categoryId),
+    });
+    const replacement = drafts.find(
+      (d) =>
+        d.title.toLowerCase().trim() !== task.title.toLowerCase().trim() &&
+        (!task.poolItemId || d.poolItemId !== task.poolItemId) &&
+        (!options.sameType || d.poolItemId)
+    );
+    if (!replacement) {
+      throw new Error('No alternative was found for this task');
+    }
+
+    const updated = await prisma.$transaction(async (tx) => {
+      const swapped = await tx.task.update({
+        where: { id: task.id },
+        data: {
+          categoryId: replacement.categoryId,
+          poolItemId: replacement.poolItemId,
+          title: replacement.title,
+          description: replacement.description ?? null,
+          // Keep the slot; the rest of the day was planned around it
+          scheduledTime: task.scheduledTime,
+          durationMinutes: replacement.durationMinutes ?? task.durationMinutes,
+          status: 'pending',
+          startedAt: null,
+          completedAt: null,
+          // A fresh invitation, even if carry-over had released the old one
+          releasedAt: null,
+          poolOffer: null,
+        },
+        include: { category: true, poolItem: true },
+      });
+
+      // Only count a change in use when no other task on the plan holds the item
+      // (released tasks already gave their use back)
+      const othersOnPlan = new Set(
+        planTasks.filter((t) => t.id !== task.id && !t.releasedAt).map((t) => t.poolItemId).filter(Boolean)
+      );
+      const added = replacement.poolItemId && !othersOnPlan.has(replacement.poolItemId) ? [replacement.poolItemId] : [];
+      const dropped =
+        task.poolItemId && !task.releasedAt && !othersOnPlan.has(task.poolItemId) ? [task.poolItemId] : [];
+      await poolService.adjustUsage(tx, added, dropped);
+
+      await saveAttempts(tx, { runId: randomUUID(), planDate, dailyPlanId: task.dailyPlanId }, attempts);
+      return swapped;
+    });
+
+    return { task: updated, replacedTitle: task.title, source, offlineReason };
+  });
+}
+
+/**
+ * Replan what's left of the day after `now`. Completed and in-progress tasks,
+ * events, and anything scheduled earlier stay; pending or skipped tasks later
+ * in the day (or with no time) are replaced.
+ */
+export async function replanRemainder(
+  planId: string,
+  now: Date = new Date(),
+  options: Pick<GeneratePlanOptions, 'offline' | 'signal'> = {}
+): Promise<ReplanResult> {
+  const plan = await prisma.dailyPlan.findUnique({ where: { id: planId } });
+  if (!plan) {
+    throw new Error('Plan not found');
+  }
+  if (plan.status !== 'active') {
+    throw new Error('This plan revision has been superseded');
+  }
+
+  const { gte: dayStart, lt: nextDay } = dayRange(plan.date);
+  if (now >= nextDay) {
+    throw new Error('This day is already over');
+  }
+  // A future day is replanned in full
+  const cutoff = now < dayStart ? dayStart : now;
+
+  return withGenerationLock(plan.date, async () => {
+    const tasks = await prisma.task.findMany({
+      where: { dailyPlanId: plan.id },
+      include: { category: true, poolItem: true },
+      orderBy: { scheduledTime: 'asc' },
+    });
+
+    const isReplaceable = (t: (typeof tasks)[number]) =>
+      !SETTLED_STATUSES.includes(t.status) &&
+      t.poolItem?.type !== 'event' &&
+      (!t.scheduledTime || new Date(t.scheduledTime) >= cutoff);
+    const kept = tasks.filter((t) => !isReplaceable(t));
+    const removed = tasks.filter(isReplaceable);
+
+    const keptPoolIds = new Set(kept.map((t) => t.poolItemId).filter((id): id is string => !!id));
+    const ctx = withoutPoolItems(await gatherContext(plan.date), keptPoolIds);
+
+    const prompt = `${buildPrompt(ctx)}
+
+## Rest of the Day
+It's now ${formatClock(cutoff)}. These stay on today's plan as they are:
+${kept.length > 0 ? kept.map((t) => describeTask(t, t.category.name)).join('\n') : '- (nothing yet)'}
+
+Plan only what's left of the day, from ${formatClock(cutoff)} onward, around the items above. Don't repeat them. Fewer invitations are fine.`;
+
+    const attempts: AttemptRecord[] = [];
+    const { parsed, source, offlineReason } = await planContent(ctx, plan.date, attempts, options, prompt);
+
+    const keptTitles = new Set(kept.map((t) => t.title.toLowerCase().trim()));
+    const fresh = { ...parsed, tasks: parsed.tasks.filter((t) => !keptTitles.has(t.title.toLowerCase().trim())) };
+    const { drafts: planned, adjustments } = draftTasks(ctx, fresh, plan.date, {
+      includeEvents: false,
+      alreadyPlanned: kept.map((t) => t.categoryId),
+      // New tasks fit around what stays, and start no earlier than now
+      fixed: kept
+        .filter((t) => t.scheduledTime)
+        .map((t) => ({ start: new Date(t.scheduledTime!), durationMinutes: t.durationMinutes })),
+      notBefore: cutoff,
+    });
+    const drafts: TaskDraft[] = planned.filter((d) => !(d.poolItemId && keptPoolIds.has(d.poolItemId)));
+
+    await prisma.$transaction(async (tx) => {
+      await tx.task.deleteMany({ where: { id: { in: removed.map((t) => t.id) } } });
+      for (const draft of drafts) {
+        await tx.task.create({ data: { ...draft, dailyPlanId: plan.id } });
+      }
+
+      const newPoolIds = new Set(drafts.map((d) => d.poolItemId).filter((id): id is string => !!id));
+      const removedPoolIds = new Set(removed.map((t) => t.poolItemId).filter((id): id is string => !!id));
+      await poolService.adjustUsage(
+        tx,
+        [...newPoolIds].filter((id) => !removedPoolIds.has(id) && !keptPoolIds.has(id)),
+        [...removedPoolIds].filter((id) => !newPoolIds.has(id) && !keptPoolIds.has(id))
+      );
+
+      await saveAttempts(tx, { runId: randomUUID(), planDate: plan.date, dailyPlanId: plan.id }, attempts);
+    });
+
+    return {
+      planId: plan.id,
+      keptCount: kept.length,
+      removedCount: removed.length,
+      addedCount: drafts.length,
+      adjustments,
+      source,
+      offlineReason,
+    };
+  });
+}
@@ -0,0 +1,243 @@
+/**
+ * Task Editor: changes to a single task on a plan after it was generated.
+ * - updateTask: retitle, retime, resize, recategorize
+ * - moveTask: to another day's plan (created if that day has none)
+ * - returnTaskToPool / deleteTask: take it off the plan
+ *
+ * Only tasks on the active revision of a day can be changed. Pool use counts
+ * and last_used_at follow every change, so cooldowns stay right (a task
+ * released by carry-over already gave its use back).
+ */
+
+import { Prisma, Task } from '@prisma/client';
+import prisma from '../lib/prisma.js';
+import { formatClock, parsePlanDate, toDateStr, zonedTimeToUtc } from '../lib/dates.js';
+import { DailyPlanService } from './dailyPlanService.js';
+import { PoolService } from './poolService.js';
+import { PlanConflictError, withGenerationLock } from './planningEngine.js';
+import { MAX_DURATION_MINUTES, MAX_TITLE_LENGTH } from './planOutput.js';
+
+const planService = new DailyPlanService();
+const poolService = new PoolService();
+
+export interface UpdateTaskInput {
+  title?: string;
+  description?: string | null;
+  categoryId?: string;
+  scheduledTime?: string | null; // "HH:MM" on the plan's day, or an ISO time that day; null clears it
+  durationMinutes?: number | null;
+  priority?: number;
+  notes?: string | null;
+}
+
+export interface MoveTaskResult {
+  task: Task;
+  planId: string;
+  planCreated: boolean; // The day had no plan, so an empty one was started
+}
+
+export interface ReturnToPoolResult {
+  poolItemId: string;
+  created: boolean; // The task wasn't from the Pool, so a Pool task was made from it
+}
+
+const CLOCK_PATTERN = /^([01]?\d|2[0-3]):[0-5]\d$/;
+
+/** The task, if it can still be changed */
+async function findEditableTask(client: Prisma.TransactionClient, taskId: string) {
+  const task = await client.task.findUnique({
+    where: { id: taskId },
+    include: { dailyPlan: true, poolItem: true },
+  });
+  if (!task) {
+    throw new Error('Task not found');
+  }
+  if (task.dailyPlan.status !== 'active') {
+    throw new Error('This task belongs to a superseded plan revision');
+  }
+  return task;
+}
+
+/**
+ * After a task with `poolItemId` left `fromPlanId` and/or joined `toPlanId`:
+ * a plan only counts as a use while some task on it holds the item.
+ */
+async function rebalanceUsage(
+  client: Prisma.TransactionClient,
+  poolItemId: string,
+  fromPlanId: string | null,
+  toPlanId: string | null,
+  taskId: string
+): Promise<void> {
+  const othersOn = (planId: string) =>
+    client.task.count({ where: { dailyPlanId: planId, poolItemId, releasedAt: null, id: { not: taskId } } });
+  const dropped = fromPlanId && (await othersOn(fromPlanId)) === 0 ? [poolItemId] : [];
+  const added = toPlanId && (await othersOn(toPlanId)) === 0 ? [poolItemId] : [];
+  await poolService.adjustUsage(client, added, dropped);
+}
+
+/** "HH:MM" or an ISO time → an instant on `dateStr` */
+function timeOnDay(value: string, dateStr: string): Date {
+  if (CLOCK_PATTERN.test(value)) return zonedTimeToUtc(dateStr, value);
+  const time = new Date(value);
+  if (isNaN(time.getTime())) {
+    throw new Error('scheduledTime must be HH:MM or an ISO time');
+  }
+  if (toDateStr(time) !== dateStr) {
+    throw new Error('scheduledTime is on another day; move the task instead');
+  }
+  return time;
+}
+
+export async function updateTask(taskId: string, input: UpdateTaskInput): Promise<Task> {
+  const task = await findEditableTask(prisma, taskId);
+  const data: Prisma.TaskUncheckedUpdateInput = {};
+
+  if (input.title !== undefined) {
+    if (typeof input.title !== 'string' || !input.title.trim()) throw new Error('title cannot be empty');
+    if (input.title.length > MAX_TITLE_LENGTH) throw new Error(`title is longer than ${MAX_TITLE_LENGTH} characters`);
+    data.title = input.title.trim();
+  }
+  if (input.description !== undefined) data.description = input.description;
+  if (input.notes !== undefined) data.notes = input.notes;
+  if (input.categoryId !== undefined) {
+    const category = await prisma.category.findUnique({ where: { id: input.categoryId } });
+    if (!category) throw new Error('Category not found');
+    if (category.archivedAt) throw new Error(`Category "${category.name}" is archived`);
+    data.categoryId = category.id;
+  }
+  if (input.scheduledTime !== undefined) {
+    data.scheduledTime = input.scheduledTime === null ? null : timeOnDay(input.scheduledTime, toDateStr(task.dailyPlan.date));
+  }
+  if (input.durationMinutes !== undefined) {
+    const minutes = input.durationMinutes;
+    if (minutes !== null && (!Number.isInteger(minutes) || minutes < 1 || minutes > MAX_DURATION_MINUTES)) {
+      throw new Error(`durationMinutes must be a whole number between 1 and ${MAX_DURATION_MINUTES}`);
+    }
+    data.durationMinutes = minutes;
+  }
+  if (input.priority !== undefined) {
+    if (!Number.isInteger(input.priority) || input.priority < 1 || input.priority > 5) {
+      throw new Error('priority must be a whole number from 1 to 5');
+    }
+    data.priority = input.priority;
+  }
+
+  return prisma.task.update({
+    where: { id: taskId },
+    data,
+    include: { category: true, poolItem: true },
+  });
+}
+
+/**
+ * Move a task to another day's active plan, starting an empty plan for that
+ * day if there is none. It keeps its clock time unless `time` is given ("HH:MM",
+ * or null for no time) and starts over as pending. Completed tasks and events
+ * stay where they are.
+ */
+export async function moveTask(taskId: string, date: string, time?: string | null): Promise<MoveTaskResult> {
+  const targetDate = parsePlanDate(date);
+  if (!targetDate) {
+    throw new Error('Invalid date');
+  }
+  if (time != null && !CLOCK_PATTERN.test(time)) {
+    throw new Error('time must be HH:MM');
+  }
+  const task = await findEditableTask(prisma, taskId);
+  if (task.status === 'completed') {
+    throw new Error('Completed tasks stay on the day they were done');
+  }
+  if (task.poolItem?.type === 'event') {
+    throw new Error('Events happen on their own day and cannot be moved');
+  }
+  const targetStr = toDateStr(targetDate);
+  if (targetStr === toDateStr(task.dailyPlan.date)) {
+    throw new Error('The task is already on that day');
+  }
+
+  // Hold the target day so a generation can't start a plan there at the same time
+  return withGenerationLock(targetDate, async () => {
+    try {
+      return await prisma.$transaction(async (tx) => {
+        let plan = await planService.findByDate(targetDate, tx);
+        const planCreated = !plan;
+        if (!plan) {
+          plan = await tx.dailyPlan.create({
+            data: {
+              date: targetDate,
+              revision: await planService.nextRevision(targetDate, tx),
+              capacityScore: task.dailyPlan.capacityScore,
+            },
+          });
+        }
+
+        const clock = time !== undefined ? time : task.scheduledTime ? formatClock(task.scheduledTime) : null;
+        const moved = await tx.task.update({
+          where: { id: task.id },
+          data: {
+            dailyPlanId: plan.id,
+            scheduledTime: clock ? zonedTimeToUtc(targetStr, clock) : null,
+            status: 'pending',
+            startedAt: null,
+            // Back on a plan, so no longer released or on offer
+            releasedAt: null,
+            ...(task.poolOffer === 'open' ? { poolOffer: null } : {}),
+          },
+          include: { category: true, poolItem: true },
+        });
+        if (task.poolItemId) {
+          await rebalanceUsage(tx, task.poolItemId, task.releasedAt ? null : task.dailyPlanId, plan.id, task.id);
+        }
+        return { task: moved, planId: plan.id, planCreated };
+      });
+    } catch (error: any) {
+      // A plan for that day was saved by a writer outside this process (e.g. the MCP server)
+      if (error?.code === 'P2002') {
+        throw new PlanConflictError(`A plan for ${targetStr} was just created; try again`);
+      }
+      throw error;
+    }
+  });
+}
+
+/**
+ * Take a task off its plan and back to the Pool: a Pool task or aspiration
+ * gets its use back; a task of the planner's own becomes a new Pool task.
+ */
+export async function returnTaskToPool(taskId: string): Promise<ReturnToPoolResult> {
+  return prisma.$transaction(async (tx) => {
+    const task = await findEditableTask(tx, taskId);
+    if (task.status === 'completed') {
+      throw new Error('Completed tasks stay on the day they were done');
+    }
+
+    await tx.task.delete({ where: { id: task.id } });
+    if (task.poolItemId) {
+      if (!task.releasedAt) await rebalanceUsage(tx, task.poolItemId, task.dailyPlanId, null, task.id);
+      return { poolItemId: task.poolItemId, created: false };
+    }
+
+    const item = await tx.poolItem.create({
+      data: {
+        type: 'task',
+        title: task.title,
+        notes: task.description,
+        categoryId: task.categoryId,
+        status: 'active',
+      },
+    });
+    return { poolItemId: item.id, created: true };
+  });
+}
+
+/** Delete a task; its Pool item (if any) gets its use back */
+export async function deleteTask(taskId: string): Promise<void> {
+  await prisma.$transaction(async (tx) => {
+    const task = await findEditableTask(tx, taskId);
+    await tx.task.delete({ where: { id: task.id } });
+    if (task.poolItemId && !task.releasedAt) {
+      await rebalanceUsage(tx, task.poolItemId, task.dailyPlanId, null, task.id);
+    }
+  });
+}
@@ -0,0 +1,152 @@
+/**
+ * Time-Slot Scheduler: turns the times a plan asks for ("09:30", "afternoon",
+ * or nothing) into a timeline where nothing overlaps. Events and other fixed
+ * items are blocked out first; each task then gets the free gap nearest to
+ * the time it asked for, inside waking hours, with a buffer between items.
+ * Tasks that can't fit are left without a time rather than stacked.
+ *
+ * Pure: no database access. Works in minutes since the user's midnight.
+ */
+
+import { minutesOfDay, zonedTimeToUtc } from '../lib/dates.js';
+
+export interface Interval {
+  start: number;
+  end: number;
+}
+
+export interface SlotRequest {
+  time?: string; // "HH:MM", or morning/afternoon/evening
+  durationMinutes?: number | null;
+  allowed?: Interval[]; // Only place inside these spans (minutes since midnight); no time if none fit
+}
+
+/** Something already on the day that tasks must fit around */
+export interface FixedBlock {
+  start: Date;
+  end?: Date | null;
+  durationMinutes?: number | null; // Used when there's no end
+}
+
+export interface ScheduleOptions {
+  notBefore?: Date; // e.g. "now" when replanning the rest of a day
+}
+
+function clockToMinutes(value: string | undefined, fallback: number): number {
+  const match = value?.match(/^(\d{1,2}):(\d{2})$/);
+  return match ? Number(match[1]) * 60 + Number(match[2]) : fallback;
+}
+
+const WAKING_START = clockToMinutes(process.env.WAKING_START, 8 * 60);
+const WAKING_END = clockToMinutes(process.env.WAKING_END, 22 * 60);
+const BUFFER_MINUTES = process.env.SCHEDULE_BUFFER_MINUTES ? Number(process.env.SCHEDULE_BUFFER_MINUTES) : 10;
+const DEFAULT_TASK_MINUTES = 30;
+const DEFAULT_EVENT_MINUTES = 60;
+const END_OF_DAY = 24 * 60;
+
+/** Where each part of the day starts looking, and the span it prefers to stay in */
+const NAMED_WINDOWS: Record<string, Interval & { desired: number }> = {
+  morning: { desired: 9 * 60, start: 0, end: 12 * 60 },
+  afternoon: { desired: 14 * 60, start: 12 * 60, end: 17 * 60 },
+  evening: { desired: 18 * 60, start: 17 * 60, end: END_OF_DAY },
+};
+
+function formatMinutes(minutes: number): string {
+  return `${String(Math.floor(minutes / 60)).padStart(2, '0')}:${String(minutes % 60).padStart(2, '0')}`;
+}
+
+/** Free gaps between busy intervals (which include their buffers) within [from, to] */
+function freeGaps(busy: Interval[], from: number, to: number): Interval[] {
+  const gaps: Interval[] = [];
+  let cursor = from;
+  for (const b of [...busy].sort((x, y) => x.start - y.start)) {
+    if (b.start > cursor) gaps.push({ start: cursor, end: Math.min(b.start, to) });
+    cursor = Math.max(cursor, b.end);
+    if (cursor >= to) break;
+  }
+  if (cursor < to) gaps.push({ start: cursor, end: to });
+  return gaps.filter((g) => g.end > g.start);
+}
+
+/** Parts of `ranges` that fall inside `bounds` */
+function clip(ranges: Interval[], bounds: Interval): Interval[] {
+  return ranges
+    .map((r) => ({ start: Math.max(r.start, bounds.start), end: Math.min(r.end, bounds.end) }))
+    .filter((r) => r.end > r.start);
+}
+
+/** Start time closest to `desired` where `duration` fits in a gap, or null */
+function nearestStart(gaps: Interval[], desired: number, duration: number): number | null {
+  let best: number | null = null;
+  for (const gap of gaps) {
+    if (gap.end - gap.start < duration) continue;
+    const start = Math.min(Math.max(desired, gap.start), gap.end - duration);
+    if (best === null || Math.abs(start - desired) < Math.abs(best - desired)) best = start;
+  }
+  return best;
+}
+
+/**
+ * Give each request a start time on `dateStr` (YYYY-MM-DD, user's zone).
+ * Returns times aligned with `requests`; undefined where nothing fits.
+ * Exact times are placed first (earliest first), then parts of the day,
+ * then untimed requests in the order given.
+ */
+export function scheduleSlots(
+  dateStr: string,
+  requests: SlotRequest[],
+  fixed: FixedBlock[],
+  options: ScheduleOptions = {}
+): (Date | undefined)[] {
+  const busy: Interval[] = fixed.map((block) => {
+    const start = minutesOfDay(block.start);
+    const length = block.end
+      ? Math.max(0, (block.end.getTime() - block.start.getTime()) / 60000)
+      : block.durationMinutes ?? DEFAULT_EVENT_MINUTES;
+    const end = start + length;
+    return { start: start - BUFFER_MINUTES, end: Math.min(end, END_OF_DAY) + BUFFER_MINUTES };
+  });
+
+  // Round "now" up to the next 5 minutes so nothing starts in the past
+  const dayStart = Math.max(WAKING_START, options.notBefore ? Math.ceil(minutesOfDay(options.notBefore) / 5) * 5 : 0);
+  const dayEnd = WAKING_END;
+
+  const order = requests
+    .map((request, index) => {
+      const time = request.time?.trim().toLowerCase();
+      const window = time ? NAMED_WINDOWS[time] : undefined;
+      const exact = time && !window ? clockToMinutes(time, -1) : -1;
+      return { index, request, window, exact: exact >= 0 ? exact : undefined };
+    })
+    .sort((a, b) => {
+      const rank = (x: typeof a) => (x.exact !== undefined ? 0 : x.window ? 1 : 2);
+      return rank(a) - rank(b) || (a.exact ?? 0) - (b.exact ?? 0) || a.index - b.index;
+    });
+
+  const result: (Date | undefined)[] = requests.map(() => undefined);
+  for (const { index, request, window, exact } of order) {
+    const duration = request.durationMinutes && request.durationMinutes > 0 ? request.durationMinutes : DEFAULT_TASK_MINUTES;
+
+    // Where this request may go at all, then (for a part of the day) where it would rather go
+    const anywhere = clip(request.allowed ?? [{ start: 0, end: END_OF_DAY }], { start: dayStart, end: dayEnd });
+    const attempts = window ? [clip(anywhere, window), anywhere] : [anywhere];
+
+    let start: number | null = null;
+    for (const ranges of attempts) {
+      if (ranges.length === 0) continue;
+      // Untimed requests go in the earliest free gap
+      const desired = exact ?? (window ? Math.max(window.desired, ranges[0].start) : ranges[0].start);
+      start = nearestStart(
+        ranges.flatMap((r) => freeGaps(busy, r.start, r.end)),
+        desired,
+        duration
+      );
+      if (start !== null) break;
+    }
+    if (start === null) continue;
+
+    busy.push({ start: start - BUFFER_MINUTES, end: start + duration + BUFFER_MINUTES });
+    result[index] = zonedTimeToUtc(dateStr, formatMinutes(start));
+  }
+  return result;
+}
@@ -23,6 +23,7 @@ import * as journalTools from './tools/journalTools.js';
 import * as planTools from './tools/planTools.js';
 import * as feedbackTools from './tools/feedbackTools.js';
 import prisma from './services/database.js';
+import { dayRange, parsePlanDate } from './services/dates.js';
 
 // Initialize MCP server
 const server = new Server(
@@ -273,14 +274,12 @@ server.setRequestHandler(ReadResourceRequestSchema, async (request) => {
     // Parse URI pattern: journal://entries/{date}
     if (uri.startsWith('journal://entries/')) {
       const dateStr = uri.replace('journal://entries/', '');
-      const date = new Date(dateStr);
+      const date = parsePlanDate(dateStr);
+      if (!date) throw new Error(`Invalid date in resource URI: ${dateStr}`);
       
       const entries = await prisma.journalEntry.findMany({
         where: {
-          timestamp: {
-            gte: new Date(date.setHours(0, 0, 0, 0)),
-            lt: new Date(date.setHours(23, 59, 59, 999)),
-          },
+          timestamp: dayRange(date),
         },
       });
 
@@ -298,14 +297,13 @@ server.setRequestHandler(ReadResourceRequestSchema, async (request) => {
     // Parse URI pattern: plan://daily/{date}
     if (uri.startsWith('plan://daily/')) {
       const dateStr = uri.replace('plan://daily/', '');
-      const date = new Date(dateStr);
+      const date = parsePlanDate(dateStr);
+      if (!date) throw new Error(`Invalid date in resource URI: ${dateStr}`);
       
       const plan = await prisma.dailyPlan.findFirst({
         where: {
-          date: {
-            gte: new Date(date.setHours(0, 0, 0, 0)),
-            lt: new Date(date.setHours(23, 59, 59, 999)),
-          },
+          date: dayRange(date),
+          status: 'active',
         },
         include: {
           tasks: {
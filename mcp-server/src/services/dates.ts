@@ -0,0 +1,163 @@
+/**
+ * Date helpers that work in the user's timezone (USER_TIMEZONE, an IANA name
+ * like "America/Chicago"; defaults to the server's zone).
+ *
+ * A plan day is stored as the instant of midnight in that zone, and "09:00"
+ * means 09:00 on the user's wall clock, whatever zone the server runs in.
+ * Day strings are always YYYY-MM-DD in the user's zone.
+ *
+ * Same helpers as backend/src/lib/dates.ts; keep the two in step.
+ */
+
+const DAY_NAMES = ['Sunday', 'Monday', 'Tuesday', 'Wednesday', 'Thursday', 'Friday', 'Saturday'];
+const DATE_ONLY = /^(\d{4})-(\d{2})-(\d{2})$/;
+
+/** True for a plain YYYY-MM-DD day string (no time part) */
+export function isDateOnly(value: string): boolean {
+  return DATE_ONLY.test(value);
+}
+
+export function getUserTimezone(): string {
+  return process.env.USER_TIMEZONE || Intl.DateTimeFormat().resolvedOptions().timeZone;
+}
+
+const formatters = new Map<string, Intl.DateTimeFormat>();
+
+function formatterFor(timeZone: string): Intl.DateTimeFormat {
+  let formatter = formatters.get(timeZone);
+  if (!formatter) {
+    formatter = new Intl.DateTimeFormat('en-US', {
+      timeZone,
+      hourCycle: 'h23',
+      year: 'numeric',
+      month: '2-digit',
+      day: '2-digit',
+      hour: '2-digit',
+      minute: '2-digit',
+      second: '2-digit',
+    });
+    formatters.set(timeZone, formatter);
+  }
+  return formatter;
+}
+
+interface ZonedParts {
+  year: number;
+  month: number; // 1-12
+  day: number;
+  hour: number;
+  minute: number;
+  second: number;
+}
+
+/** Wall-clock fields of an instant in the user's zone (or `timeZone`) */
+function zonedParts(date: Date, timeZone: string = getUserTimezone()): ZonedParts {
+  const parts: Record<string, number> = {};
+  for (const p of formatterFor(timeZone).formatToParts(date)) {
+    if (p.type !== 'literal') parts[p.type] = Number(p.value);
+  }
+  return {
+    year: parts.year,
+    month: parts.month,
+    day: parts.day,
+    hour: parts.hour,
+    minute: parts.minute,
+    second: parts.second,
+  };
+}
+
+/** Minutes the zone is ahead of UTC at this instant */
+function offsetMinutes(date: Date, timeZone: string): number {
+  const p = zonedParts(date, timeZone);
+  const asUtc = Date.UTC(p.year, p.month - 1, p.day, p.hour, p.minute, p.second);
+  return Math.round((asUtc - Math.floor(date.getTime() / 1000) * 1000) / 60000);
+}
+
+/** YYYY-MM-DD of the instant in the user's zone */
+export function toDateStr(date: Date): string {
+  const p = zonedParts(date);
+  return `${p.year}-${String(p.month).padStart(2, '0')}-${String(p.day).padStart(2, '0')}`;
+}
+
+/** HH:MM of the instant on the user's wall clock */
+export function formatClock(date: Date): string {
+  const p = zonedParts(date);
+  return `${String(p.hour).padStart(2, '0')}:${String(p.minute).padStart(2, '0')}`;
+}
+
+/** Minutes since the user's midnight */
+export function minutesOfDay(date: Date): number {
+  const p = zonedParts(date);
+  return p.hour * 60 + p.minute;
+}
+
+/** 0 (Sunday) – 6 (Saturday) in the user's zone */
+export function dayOfWeek(date: Date): number {
+  const p = zonedParts(date);
+  return new Date(Date.UTC(p.year, p.month - 1, p.day)).getUTCDay();
+}
+
+export function dayName(date: Date): string {
+  return DAY_NAMES[dayOfWeek(date)];
+}
+
+/**
+ * The instant when the user's wall clock (or one in `timeZone`) shows `time`
+ * (HH:MM or HH:MM:SS) on `dateStr`. Across a DST change the offset is re-read
+ * at the result, so 09:00 stays 09:00.
+ */
+export function zonedTimeToUtc(dateStr: string, time: string = '00:00', timeZone: string = getUserTimezone()): Date {
+  const match = dateStr.match(DATE_ONLY);
+  if (!match) throw new Error(`Invalid date "${dateStr}" (expected YYYY-MM-DD)`);
+  const [h, m, sec] = time.split(':').map(Number);
+  const wall = Date.UTC(Number(match[1]), Number(match[2]) - 1, Number(match[3]), h || 0, m || 0, sec || 0);
+
+  let result = wall - offsetMinutes(new Date(wall), timeZone) * 60000;
+  const corrected = wall - offsetMinutes(new Date(result), timeZone) * 60000;
+  if (corrected !== result) result = corrected;
+  return new Date(result);
+}
+
+/** Add whole days to a YYYY-MM-DD string */
+export function addDays(dateStr: string, days: number): string {
+  const match = dateStr.match(DATE_ONLY);
+  if (!match) throw new Error(`Invalid date "${dateStr}" (expected YYYY-MM-DD)`);
+  const d = new Date(Date.UTC(Number(match[1]), Number(match[2]) - 1, Number(match[3]) + days));
+  return d.toISOString().split('T')[0];
+}
+
+/** Midnight in the user's zone of the day containing `date` (or of a YYYY-MM-DD string) */
+export function startOfDay(date: Date | string): Date {
+  return zonedTimeToUtc(typeof date === 'string' ? date : toDateStr(date));
+}
+
+/** Prisma-ready bounds of the user's day: from its midnight up to the next one */
+export function dayRange(date: Date | string): { gte: Date; lt: Date } {
+  const dateStr = typeof date === 'string' ? date : toDateStr(date);
+  return { gte: zonedTimeToUtc(dateStr), lt: zonedTimeToUtc(addDays(dateStr, 1)) };
+}
+
+/** Today's YYYY-MM-DD for the user */
+export function todayStr(now: Date = new Date()): string {
+  return toDateStr(now);
+}
+
+/**
+ * Parse a date from a request: YYYY-MM-DD is a day in the user's zone; any
+ * other date string is an instant whose user-zone day is used. Returns the
+ * plan day (user midnight) or null when unparseable or not a real day.
+ */
+export function parsePlanDate(value: string | undefined | null): Date | null {
+  if (!value) return null;
+  if (DATE_ONLY.test(value)) {
+    try {
+      const day = startOfDay(value);
+      // No such day ("2026-02-30" would roll over into March)
+      return toDateStr(day) === value ? day : null;
+    } catch {
+      return null;
+    }
+  }
+  const d = new Date(value);
+  return isNaN(d.getTime()) ? null : startOfDay(d);
+}
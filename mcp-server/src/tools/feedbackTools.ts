@@ -1,9 +1,9 @@
 import prisma from '../services/database.js';
+import { addDays, startOfDay, todayStr, toDateStr } from '../services/dates.js';
 
 export async function getRecentFeedback(args: any) {
   const { days = 14, category_id } = args;
-  const startDate = new Date();
-  startDate.setDate(startDate.getDate() - days);
+  const startDate = startOfDay(addDays(todayStr(), -days));
 
   const feedback = await prisma.dailyFeedback.findMany({
     where: {
@@ -25,7 +25,7 @@ export async function getRecentFeedback(args: any) {
     period: `${days} days`,
     feedback: feedback.map(f => ({
       id: f.id,
-      date: f.date.toISOString().split('T')[0],
+      date: toDateStr(f.date),
       overallRating: f.overallRating,
       affectedCategory: f.affectedCategory?.name,
       textElaboration: f.textElaboration,
@@ -69,7 +69,7 @@ export async function saveDailyFeedback(args: any) {
       affectedCategoryId: affected_category_id || null,
       textElaboration: text_elaboration || null,
       activityLog: activity_log || null,
-      // Extracted insights will be added by LLM analysis later
+      // Extracted insights are added by the backend feedback analyzer
     },
     include: {
       affectedCategory: true,
@@ -78,10 +78,10 @@ export async function saveDailyFeedback(args: any) {
 
   return {
     id: feedback.id,
-    date: feedback.date.toISOString().split('T')[0],
+    date: toDateStr(feedback.date),
     overallRating: feedback.overallRating,
     affectedCategory: feedback.affectedCategory?.name,
-    message: 'Feedback saved successfully. Insights can be extracted and updated later.',
+    message: 'Feedback saved successfully. Insights are extracted by the backend in the background.',
   };
 }
 
@@ -107,8 +107,8 @@ export async function getPatternInsights(args: any) {
       patternType: i.patternType,
       patternData: JSON.parse(i.patternData),
       confidence: i.confidence,
-      firstObserved: i.firstObserved.toISOString().split('T')[0],
-      lastObserved: i.lastObserved.toISOString().split('T')[0],
+      firstObserved: toDateStr(i.firstObserved),
+      lastObserved: toDateStr(i.lastObserved),
     })),
     count: insights.length,
   };
@@ -1,13 +1,18 @@
 import prisma from '../services/database.js';
+import { addDays, dayRange, parsePlanDate, startOfDay, todayStr, toDateStr } from '../services/dates.js';
 
 export async function getJournalEntries(args: any) {
   const { start_date, end_date, limit } = args;
+  // Whole days in the user's timezone, end date included
+  const start = parsePlanDate(start_date);
+  const end = parsePlanDate(end_date);
+  if (!start || !end) throw new Error('start_date and end_date must be dates (YYYY-MM-DD)');
   
   const entries = await prisma.journalEntry.findMany({
     where: {
       timestamp: {
-        gte: new Date(start_date),
-        lte: new Date(end_date),
+        gte: start,
+        lt: dayRange(end).lt,
       },
     },
     orderBy: {
@@ -31,8 +36,7 @@ export async function getJournalEntries(args: any) {
 
 export async function getRecentMentalState(args: any) {
   const days = args.days || 7;
-  const startDate = new Date();
-  startDate.setDate(startDate.getDate() - days);
+  const startDate = startOfDay(addDays(todayStr(), -days));
 
   const entries = await prisma.journalEntry.findMany({
     where: {
@@ -71,7 +75,7 @@ export async function getRecentMentalState(args: any) {
     averageSleepQuality: avgSleep,
     moodDistribution: moodCounts,
     recentEntries: entries.slice(0, 5).map(e => ({
-      date: e.timestamp.toISOString().split('T')[0],
+      date: toDateStr(e.timestamp),
       content: e.content.substring(0, 200) + (e.content.length > 200 ? '...' : ''),
       mood: e.mood,
     })),
@@ -1,43 +1,96 @@
+import { Prisma } from '@prisma/client';
 import prisma from '../services/database.js';
+import { addDays, dayRange, parsePlanDate, startOfDay, todayStr, toDateStr } from '../services/dates.js';
+
+// Tasks worth keeping when a date's plan is replaced (as in the backend)
+const CARRY_OVER_STATUSES = ['completed', 'in_progress'];
 
 export async function createDailyPlan(args: any) {
   const { date, plan_data } = args;
-  
-  // Create the daily plan
-  const plan = await prisma.dailyPlan.create({
-    data: {
-      date: new Date(date),
-      capacityScore: plan_data.capacity_score || 'medium',
-      mentalStateSummary: plan_data.mental_state_summary,
-    },
-  });
+  // Plan days are stored as midnight in the user's timezone
+  const planDate = parsePlanDate(date);
+  if (!planDate) throw new Error(`Invalid date: ${date}`);
 
-  // Create tasks if provided
-  const tasks = [];
-  if (plan_data.tasks && Array.isArray(plan_data.tasks)) {
-    for (const taskData of plan_data.tasks) {
-      const task = await prisma.task.create({
-        data: {
-          dailyPlanId: plan.id,
-          categoryId: taskData.category_id,
-          title: taskData.title,
-          description: taskData.description,
-          scheduledTime: taskData.scheduled_time ? new Date(taskData.scheduled_time) : null,
-          durationMinutes: taskData.duration_minutes,
-          priority: taskData.priority || 3,
-        },
-        include: {
-          category: true,
-        },
+  // Create the daily plan as the date's newest revision; an existing plan is
+  // kept as superseded, its completed and in-progress tasks come along and its
+  // feedback moves to the new one
+  const { plan, tasks } = await prisma.$transaction(async (tx) => {
+    const sameDay = await tx.dailyPlan.findMany({
+      where: { date: dayRange(planDate) },
+      orderBy: { revision: 'desc' },
+    });
+    const previous = sameDay.find((p) => p.status === 'active');
+
+    const created = await tx.dailyPlan.create({
+      data: {
+        date: planDate,
+        revision: (sameDay[0]?.revision ?? 0) + 1,
+        capacityScore: plan_data.capacity_score || 'medium',
+        mentalStateSummary: plan_data.mental_state_summary,
+      },
+    });
+
+    const tasks = [];
+    const carried = previous
+      ? await tx.task.findMany({ where: { dailyPlanId: previous.id, status: { in: CARRY_OVER_STATUSES } } })
+      : [];
+    for (const task of carried) {
+      const { id, dailyPlanId, createdAt, updatedAt, ...rest } = task;
+      const copy = await tx.task.create({
+        data: { ...rest, dailyPlanId: created.id },
+        include: { category: true },
       });
-      tasks.push(task);
+      const history = await tx.completionHistory.findMany({ where: { taskId: id } });
+      for (const { id: historyId, taskId, ...entry } of history) {
+        await tx.completionHistory.create({ data: { ...entry, taskId: copy.id } });
+      }
+      tasks.push(copy);
     }
-  }
+    const carriedTitles = new Set(carried.map((t) => t.title.toLowerCase().trim()));
+
+    if (plan_data.tasks && Array.isArray(plan_data.tasks)) {
+      for (const taskData of plan_data.tasks) {
+        if (typeof taskData.title === 'string' && carriedTitles.has(taskData.title.toLowerCase().trim())) {
+          continue; // Already on the plan via carry-over
+        }
+        const task = await tx.task.create({
+          data: {
+            dailyPlanId: created.id,
+            categoryId: taskData.category_id,
+            title: taskData.title,
+            description: taskData.description,
+            scheduledTime: taskData.scheduled_time ? new Date(taskData.scheduled_time) : null,
+            durationMinutes: taskData.duration_minutes,
+            priority: taskData.priority || 3,
+          },
+          include: {
+            category: true,
+          },
+        });
+        tasks.push(task);
+      }
+    }
+
+    if (previous) {
+      await tx.dailyPlan.update({
+        where: { id: previous.id },
+        data: { status: 'superseded', supersededAt: new Date() },
+      });
+      await tx.dailyFeedback.updateMany({
+        where: { dailyPlanId: previous.id },
+        data: { dailyPlanId: created.id },
+      });
+    }
+    // Pool use counts follow the active revision, as in the backend
+    await syncPoolUsage(tx, previous?.id ?? null, created.id);
+
+    return { plan: created, tasks };
+  });
 
   return {
     plan: {
       id: plan.id,
-      date: plan.date.toISOString().split('T')[0],
+      date: toDateStr(plan.date),
       capacityScore: plan.capacityScore,
       mentalStateSummary: plan.mentalStateSummary,
     },
@@ -52,10 +105,44 @@ export async function createDailyPlan(args: any) {
   };
 }
 
+/**
+ * Pool items held by one revision and not the other gain or give back a use,
+ * and their last_used_at goes to the latest active plan that still includes
+ * them (the backend's PoolService.syncUsage; released tasks don't count)
+ */
+async function syncPoolUsage(tx: Prisma.TransactionClient, previousPlanId: string | null, nextPlanId: string) {
+  const poolIdsIn = async (planId: string | null) => {
+    if (!planId) return new Set<string>();
+    const tasks = await tx.task.findMany({
+      where: { dailyPlanId: planId, poolItemId: { not: null }, releasedAt: null },
+      select: { poolItemId: true },
+    });
+    return new Set(tasks.map((t) => t.poolItemId!));
+  };
+  const before = await poolIdsIn(previousPlanId);
+  const after = await poolIdsIn(nextPlanId);
+  const added = [...after].filter((id) => !before.has(id));
+  const dropped = [...before].filter((id) => !after.has(id));
+
+  if (added.length > 0) {
+    await tx.poolItem.updateMany({ where: { id: { in: added } }, data: { useCount: { increment: 1 } } });
+  }
+  if (dropped.length > 0) {
+    await tx.poolItem.updateMany({ where: { id: { in: dropped }, useCount: { gt: 0 } }, data: { useCount: { decrement: 1 } } });
+  }
+  for (const id of [...added, ...dropped]) {
+    const latest = await tx.task.findFirst({
+      where: { poolItemId: id, releasedAt: null, dailyPlan: { status: 'active' } },
+      orderBy: { dailyPlan: { date: 'desc' } },
+      select: { dailyPlan: { select: { date: true } } },
+    });
+    await tx.poolItem.update({ where: { id }, data: { lastUsedAt: latest?.dailyPlan.date ?? null } });
+  }
+}
+
 export async function getTaskHistory(args: any) {
   const { category_id, days = 30 } = args;
-  const startDate = new Date();
-  startDate.setDate(startDate.getDate() - days);
+  const startDate = startOfDay(addDays(todayStr(), -days));
 
   const tasks = await prisma.task.findMany({
     where: {
@@ -63,6 +150,7 @@ export async function getTaskHistory(args: any) {
         date: {
           gte: startDate,
         },
+        status: 'active',
       },
       ...(category_id ? { categoryId: category_id } : {}),
     },
@@ -107,11 +195,11 @@ export async function getTaskHistory(args: any) {
 
 export async function queryCapacityIndicators(args: any) {
   const { date } = args;
-  const targetDate = new Date(date);
+  const targetDate = parsePlanDate(date);
+  if (!targetDate) throw new Error(`Invalid date: ${date}`);
   
   // Get recent journal entries (last 7 days)
-  const startDate = new Date(targetDate);
-  startDate.setDate(startDate.getDate() - 7);
+  const startDate = startOfDay(addDays(toDateStr(targetDate), -7));
 
   const entries = await prisma.journalEntry.findMany({
     where: {
@@ -133,6 +221,7 @@ export async function queryCapacityIndicators(args: any) {
           gte: startDate,
           lt: targetDate,
         },
+        status: 'active',
       },
     },
   });
@@ -160,7 +249,7 @@ export async function queryCapacityIndicators(args: any) {
   else if (score > 0.7) capacityScore = 'high';
 
   return {
-    date: targetDate.toISOString().split('T')[0],
+    date: toDateStr(targetDate),
     capacityScore,
     indicators: {
       averageEnergyLevel: avgEnergy,